@@ -17,6 +17,10 @@
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
 import type { CriticalContext, DailyReport, MemoryGuardianConfig } from '../types.js';
+import { DEFAULT_CONFIG } from '../types.js';
+import { parseTranscript } from '../utils/transcript.js';
+import { estimateTokens } from '../utils/chunk.js';
+import { assembleContext, ContextPriority, type ContextItem } from '../utils/context-assembler.js';
 
 // Critical Context 緩存路徑
 const getCriticalContextPath = (workspaceDir: string) =>
@@ -45,41 +49,10 @@ function extractRecentMessages(
     // 取最後 N 條
     const recentLines = lines.slice(-count);
     
-    const messages: string[] = [];
-    for (const line of recentLines) {
-      try {
-        const entry = JSON.parse(line);
-        // OpenClaw format: {"type":"message","message":{"role":"...","content":...}}
-        if (entry.type === 'message' && entry.message) {
-          const role = entry.message.role;
-          const contentData = entry.message.content;
-          
-          if (role && contentData) {
-            const roleLabel = role === 'user' ? 'User' : 'Assistant';
-            
-            // content 可能是 string 或 array of content parts
-            let textContent: string;
-            if (typeof contentData === 'string') {
-              textContent = contentData;
-            } else if (Array.isArray(contentData)) {
-              // Extract text from content parts
-              textContent = contentData
-                .filter((part: any) => part.type === 'text' && part.text)
-                .map((part: any) => part.text)
-                .join(' ');
-            } else {
-              textContent = JSON.stringify(contentData);
-            }
-            
-            messages.push(`[${roleLabel}]: ${textContent.slice(0, 500)}`);
-          }
-        }
-      } catch {
-        // 跳過無效的 JSON 行
-      }
-    }
-    
-    return messages;
+    return parseTranscript(recentLines.join('\n')).map((msg) => {
+      const roleLabel = msg.role === 'user' ? 'User' : 'Assistant';
+      return `[${roleLabel}]: ${msg.content.slice(0, 500)}`;
+    });
   } catch (error) {
     console.error('[AntiAmnesia] 讀取 transcript 失敗:', error);
     return [];
@@ -98,14 +71,13 @@ function extractThinkingChains(messages: string[]): string[] {
     for (const match of matches) {
       const thinking = match[1].trim();
       if (thinking.length > 0) {
-        // 限制每個思考鏈的長度
-        chains.push(thinking.slice(0, 500));
+        chains.push(thinking);
       }
     }
   }
 
-  // 只保留最近的 5 個思考鏈
-  return chains.slice(-5);
+  // 注入時按 token 預算選擇，這裡保留全部
+  return chains;
 }
 
 /**
@@ -196,30 +168,80 @@ export async function buildCriticalContext(
 
 /**
  * 將 Critical Context 格式化為 XML
- * 用於注入到 System Prompt
+ * 用於注入到 System Prompt；按 token 預算依次納入日報摘要、決策、待辦、最近消息（由新到舊）和思考鏈
+ * @param tokenBudget critical context 層的 token 預算
  */
-export function formatCriticalContextXml(context: CriticalContext): string {
+export function formatCriticalContextXml(
+  context: CriticalContext,
+  tokenBudget: number = DEFAULT_CONFIG.contextTokenBudget.critical
+): string {
+  const candidates: ContextItem[] = [];
+  const add = (section: string, tag: string, text: string, priority: number, rank?: number) => {
+    candidates.push({ section, text, priority, rank, overhead: estimateTokens(`      <${tag}></${tag}>`) });
+  };
+
+  if (context.dailyReport) {
+    if (context.dailyReport.summary) {
+      add('summary', 'summary', context.dailyReport.summary, ContextPriority.Pinned);
+    }
+    for (const decision of context.dailyReport.decisions) {
+      add('decisions', 'decision', decision, ContextPriority.Decision);
+    }
+    for (const item of context.dailyReport.actionItems) {
+      add('action_items', 'item', item, ContextPriority.ActionItem);
+    }
+  }
+
+  // 最近的消息和思考鏈優先納入
+  context.recentMessages.forEach((msg, i) => {
+    add('recent_conversation', 'message', msg, ContextPriority.RecentMessage, context.recentMessages.length - i);
+  });
+  context.thinkingChains.forEach((chain, i) => {
+    add('reasoning_context', 'thought', chain, ContextPriority.Thought, context.thinkingChains.length - i);
+  });
+
+  // 外層標籤的固定開銷：每個區塊按一個空條目渲染
+  const sections = new Map(candidates.map(item => [item.section, { ...item, text: '' }]));
+  const frameTokens = estimateTokens(renderCriticalContextXml(context.timestamp, Array.from(sections.values())));
+
+  const { items } = assembleContext('critical', candidates, tokenBudget - frameTokens);
+  return renderCriticalContextXml(context.timestamp, items);
+}
+
+/**
+ * 渲染已選定的 Critical Context 條目
+ */
+function renderCriticalContextXml(timestamp: number, items: ContextItem[]): string {
+  const section = (name: string) => items.filter(item => item.section === name).map(item => item.text);
+  const summary = section('summary');
+  const decisions = section('decisions');
+  const actionItems = section('action_items');
+  const messages = section('recent_conversation');
+  const thoughts = section('reasoning_context');
+
   const parts: string[] = ['<critical_context>'];
   
   // 添加時間戳
-  parts.push(`  <generated_at>${new Date(context.timestamp).toISOString()}</generated_at>`);
+  parts.push(`  <generated_at>${new Date(timestamp).toISOString()}</generated_at>`);
 
   // 添加日報摘要
-  if (context.dailyReport) {
+  if (summary.length > 0 || decisions.length > 0 || actionItems.length > 0) {
     parts.push('  <daily_summary>');
-    parts.push(`    <summary>${escapeXml(context.dailyReport.summary)}</summary>`);
+    for (const text of summary) {
+      parts.push(`    <summary>${escapeXml(text)}</summary>`);
+    }
     
-    if (context.dailyReport.decisions.length > 0) {
+    if (decisions.length > 0) {
       parts.push('    <decisions>');
-      for (const decision of context.dailyReport.decisions) {
+      for (const decision of decisions) {
         parts.push(`      <decision>${escapeXml(decision)}</decision>`);
       }
       parts.push('    </decisions>');
     }
 
-    if (context.dailyReport.actionItems.length > 0) {
+    if (actionItems.length > 0) {
       parts.push('    <action_items>');
-      for (const item of context.dailyReport.actionItems) {
+      for (const item of actionItems) {
         parts.push(`      <item>${escapeXml(item)}</item>`);
       }
       parts.push('    </action_items>');
@@ -227,21 +249,19 @@ export function formatCriticalContextXml(context: CriticalContext): string {
     parts.push('  </daily_summary>');
   }
 
-  // 添加最近消息摘要
-  if (context.recentMessages.length > 0) {
+  // 添加最近消息
+  if (messages.length > 0) {
     parts.push('  <recent_conversation>');
-    // 只包含最後 10 條消息（避免過長）
-    const recentSlice = context.recentMessages.slice(-10);
-    for (const msg of recentSlice) {
-      parts.push(`    <message>${escapeXml(msg.slice(0, 300))}</message>`);
+    for (const msg of messages) {
+      parts.push(`    <message>${escapeXml(msg)}</message>`);
     }
     parts.push('  </recent_conversation>');
   }
 
   // 添加思考鏈
-  if (context.thinkingChains.length > 0) {
+  if (thoughts.length > 0) {
     parts.push('  <reasoning_context>');
-    for (const chain of context.thinkingChains) {
+    for (const chain of thoughts) {
       parts.push(`    <thought>${escapeXml(chain)}</thought>`);
     }
     parts.push('  </reasoning_context>');
@@ -2,7 +2,7 @@
  * 組件 3: FAISS 向量化器 (FAISS + Vectorizer)
  * 
  * 功能：
- * - 在服務啟動時，初始化 @xenova/transformers 的 all-MiniLM-L6-v2 模型
+ * - 在服務啟動時，初始化配置的 embedding provider（默認本地 all-MiniLM-L6-v2）
  * - 初始化 faiss-node 並加載/創建向量索引
  * - 建立異步任務隊列，處理新消息的向量化
  * - 持久化索引到本地文件
@@ -13,11 +13,42 @@
  */
 
 import { existsSync, mkdirSync, readdirSync, readFileSync, statSync } from 'fs';
-import { join } from 'path';
-import type { MemoryGuardianConfig, TextChunk, PluginApi, SearchResult } from '../types.js';
-import { initEmbeddings, embedText, embedTexts, disposeEmbeddings } from '../utils/embeddings.js';
-import { getVectorStore, FaissVectorStore } from '../utils/faiss-store.js';
-import { chunkText, chunkMarkdown } from '../utils/chunk.js';
+import { basename, join } from 'path';
+import type { MemoryGuardianConfig, TextChunk, PluginApi, SearchResult, SearchFilter } from '../types.js';
+import {
+  initEmbeddings,
+  embedText,
+  embedTexts,
+  disposeEmbeddings,
+  setEmbeddingCache,
+  flushEmbeddingCache,
+  getEmbeddingCacheStats,
+  getEmbeddingPrefixes,
+  getTokenCounter,
+  cosineSimilarity,
+  type EmbeddingProvider,
+} from '../utils/embeddings.js';
+import { createEmbeddingProvider } from '../utils/embedding-providers.js';
+import { EmbeddingCache, type EmbeddingCacheStats } from '../utils/embedding-cache.js';
+import { getVectorStore, FaissVectorStore, type RecoveryState, type EmbeddingInfo } from '../utils/faiss-store.js';
+import {
+  chunkText,
+  chunkMarkdown,
+  chunkConversation,
+  chunkTextSemantic,
+  chunkMarkdownSemantic,
+  chunkConversationSemantic,
+  getEmbeddingText,
+  estimateTokens,
+  type ChunkOptions,
+  type SemanticChunkOptions,
+  type TokenCounter,
+} from '../utils/chunk.js';
+import { IndexManifest, hashContent } from '../utils/index-manifest.js';
+import { parseTranscript } from '../utils/transcript.js';
+import { extractQueryKeywords } from '../utils/search-tokenizer.js';
+import { reciprocalRankFusion } from '../utils/rank-fusion.js';
+import { initReranker, disposeReranker } from '../utils/reranker.js';
 
 // 任務隊列
 interface IndexTask {
@@ -27,10 +58,35 @@ interface IndexTask {
   sourcePath: string;
   sessionKey?: string;
   metadata?: Record<string, unknown>;
+  /** 來源文件狀態（工作空間文件任務用於更新索引清單） */
+  fileState?: { size: number; mtimeMs: number; hash: string };
   priority: number;
   createdAt: number;
 }
 
+// 模型遷移時每批重新向量化的切塊數
+const MIGRATION_BATCH_SIZE = 64;
+
+// Embedding 模型遷移狀態
+interface EmbeddingMigration {
+  state: 'pending' | 'running' | 'failed';
+  from: EmbeddingInfo;
+  to: { model: string; dimension: number; documentPrefix: string };
+  error?: string;
+}
+
+/**
+ * 從文件名中的日期（如 memory/2026-10-01.md）解析來源時間（本地時區零點）
+ */
+function dateFromFileName(path: string): number | undefined {
+  const match = basename(path).match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
+    return undefined;
+  }
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
 /**
  * FAISS 向量化服務類
  */
@@ -39,15 +95,21 @@ export class FaissVectorizerService {
   private config: MemoryGuardianConfig;
   private workspaceDir: string;
   private store: FaissVectorStore | null = null;
+  private embedder: EmbeddingProvider;
+  private manifest: IndexManifest | null = null;
   private taskQueue: IndexTask[] = [];
   private isProcessing: boolean = false;
   private processIntervalId: NodeJS.Timeout | null = null;
   private initialized: boolean = false;
+  private migration: EmbeddingMigration | null = null;
+  private tokenCounter: TokenCounter | null = null;
+  private oversizedChunks: number = 0;
 
   constructor(api: PluginApi, config: MemoryGuardianConfig, workspaceDir: string) {
     this.api = api;
     this.config = config;
     this.workspaceDir = workspaceDir;
+    this.embedder = createEmbeddingProvider(config, api.logger);
   }
 
   /**
@@ -62,8 +124,19 @@ export class FaissVectorizerService {
     const startTime = Date.now();
 
     try {
-      // 1. 初始化 embedding 模型
-      await initEmbeddings(this.config.embeddingModel);
+      // 1. 初始化 embedding provider
+      try {
+        await initEmbeddings(this.embedder, { prefixes: this.config.embeddingPrefixes });
+      } catch (error) {
+        if (this.config.embeddingProvider !== 'transformers' || this.config.embeddingWorkers <= 0) {
+          throw error;
+        }
+        // worker 線程無法啟動時（例如宿主環境不支持 worker_threads），釋放線程池後回退到主線程推理
+        this.api.logger.warn(`[FaissVectorizer] Embedding worker 啟動失敗，回退到主線程推理: ${error}`);
+        await this.embedder.dispose().catch(() => undefined);
+        this.embedder = createEmbeddingProvider({ ...this.config, embeddingWorkers: 0 }, this.api.logger);
+        await initEmbeddings(this.embedder, { prefixes: this.config.embeddingPrefixes });
+      }
 
       // 2. 初始化向量存儲
       const indexPath = join(this.workspaceDir, '.memory-guardian', 'vector.index');
@@ -75,7 +148,44 @@ export class FaissVectorizerService {
         mkdirSync(dir, { recursive: true });
       }
 
-      this.store = await getVectorStore({ indexPath, metaPath });
+      // 持久化 embedding 緩存
+      const cache = new EmbeddingCache({
+        path: join(dir, 'embedding-cache.bin'),
+        maxEntries: this.config.embeddingCacheSize,
+      });
+      cache.load();
+      setEmbeddingCache(cache);
+
+      this.store = await getVectorStore({
+        indexPath,
+        metaPath,
+        dimension: this.embedder.getDimension(),
+        embeddingModel: this.embedder.modelId,
+        documentPrefix: getEmbeddingPrefixes().document,
+      });
+
+      // 3. 加載索引清單
+      this.manifest = new IndexManifest(join(dir, 'index.manifest.json'));
+      this.manifest.load();
+
+      // 索引從舊快照恢復或重建時，清單可能記錄了索引中已不存在的切塊，
+      // 清空清單讓 indexWorkspace 從源文件重新索引
+      const recovery = this.store.getRecoveryState();
+      if (recovery !== 'none') {
+        this.api.logger.warn(
+          recovery === 'snapshot'
+            ? '[FaissVectorizer] 索引已回退到上一個完好快照，將從源文件補齊索引'
+            : '[FaissVectorizer] 索引損壞且無可用快照，將從源文件重建索引'
+        );
+        this.manifest.clear();
+        this.manifest.flush();
+      }
+
+      // 4. 檢查索引與配置的 embedding 模型是否一致
+      this.checkEmbeddingCompatibility();
+
+      // 5. 加載 tokenizer，用於按 token 切塊和檢查切塊長度
+      await this.loadTokenCounter();
 
       const elapsed = Date.now() - startTime;
       this.api.logger.info(`[FaissVectorizer] 初始化完成，耗時 ${elapsed}ms`);
@@ -88,6 +198,202 @@ export class FaissVectorizerService {
     }
   }
 
+  /**
+   * 加載當前模型的 token 計數器
+   * provider 無本地 tokenizer 時，按 token 切塊回退到估算值
+   */
+  private async loadTokenCounter(): Promise<void> {
+    try {
+      this.tokenCounter = await getTokenCounter();
+    } catch (error) {
+      this.api.logger.warn(`[FaissVectorizer] 加載 tokenizer 失敗: ${error}`);
+      this.tokenCounter = null;
+    }
+
+    if (!this.tokenCounter && this.config.chunkUnit === 'tokens') {
+      this.api.logger.warn('[FaissVectorizer] 當前 embedding provider 不提供 tokenizer，按估算的 token 數切塊');
+      this.tokenCounter = { count: estimateTokens, maxLength: this.config.embeddingMaxTokens };
+    }
+  }
+
+  /**
+   * 構建切塊參數，chunkUnit 為 tokens 時按 tokenizer 計數
+   */
+  private chunkOptions(task: IndexTask): ChunkOptions {
+    return {
+      chunkSize: this.config.chunkSize,
+      chunkOverlap: this.config.chunkOverlap,
+      tokenizer: this.config.chunkUnit === 'tokens' ? this.tokenCounter || undefined : undefined,
+      sourcePath: task.sourcePath,
+      sessionKey: task.sessionKey,
+      metadata: task.metadata,
+      // 文件以文件名中的日期或修改時間為來源時間，其他任務以加入隊列的時間為準
+      sourceTimestamp: task.fileState
+        ? dateFromFileName(task.sourcePath) ?? task.fileState.mtimeMs
+        : task.createdAt,
+    };
+  }
+
+  /**
+   * 按任務類型和配置的切塊策略切分任務內容
+   * @returns 未知任務類型時返回 null
+   */
+  private async chunkTask(task: IndexTask): Promise<TextChunk[] | null> {
+    const strategy = this.config.chunkStrategy || {};
+    const semanticOptions = (): SemanticChunkOptions => ({
+      ...this.chunkOptions(task),
+      minSize: this.config.semanticChunkMinSize,
+      breakpointPercentile: this.config.semanticBreakpointPercentile,
+      // 句子窗口的向量只用於尋找切分點，不寫入緩存
+      embed: (texts) => embedTexts(texts, { role: 'document', priority: 'low', cache: false }),
+    });
+
+    switch (task.type) {
+      case 'text':
+        return strategy.text === 'semantic'
+          ? chunkTextSemantic(task.content, semanticOptions())
+          : chunkText(task.content, this.chunkOptions(task));
+
+      case 'file':
+        if (task.sourcePath.endsWith('.md')) {
+          return strategy.markdown === 'semantic'
+            ? chunkMarkdownSemantic(task.content, semanticOptions())
+            : chunkMarkdown(task.content, this.chunkOptions(task));
+        }
+        return strategy.text === 'semantic'
+          ? chunkTextSemantic(task.content, semanticOptions())
+          : chunkText(task.content, this.chunkOptions(task));
+
+      case 'conversation': {
+        // content 為 OpenClaw transcript（JSONL）
+        const messages = parseTranscript(task.content);
+        return strategy.conversation === 'semantic'
+          ? chunkConversationSemantic(messages, semanticOptions())
+          : chunkConversation(messages, this.chunkOptions(task));
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 檢查切塊是否超出模型最大輸入長度（超出部分會被模型截斷）
+   */
+  private checkChunkLengths(chunks: TextChunk[], sourcePath: string): void {
+    const maxLength = this.tokenCounter?.maxLength;
+    if (!this.tokenCounter || !maxLength) {
+      return;
+    }
+
+    const oversized = chunks.filter(chunk => this.tokenCounter!.count(getEmbeddingText(chunk)) > maxLength).length;
+    if (oversized > 0) {
+      this.oversizedChunks += oversized;
+      this.api.logger.warn(
+        `[FaissVectorizer] ${sourcePath} 有 ${oversized} 個切塊超過模型最大輸入 ${maxLength} tokens，超出部分將被截斷；` +
+        '請調小 chunkSize 或設置 chunkUnit 為 tokens'
+      );
+    }
+  }
+
+  /**
+   * 檢查索引記錄的 embedding 模型與當前配置是否一致
+   * 不一致時記錄待遷移狀態，遷移完成前暫停檢索和索引
+   */
+  private checkEmbeddingCompatibility(): void {
+    if (!this.store) {
+      return;
+    }
+
+    const stored = this.store.getEmbeddingInfo();
+    const target = {
+      model: this.embedder.modelId,
+      dimension: this.embedder.getDimension(),
+      documentPrefix: getEmbeddingPrefixes().document,
+    };
+
+    // 舊版索引未記錄模型：維度和前綴一致時視為同一模型並補記
+    if (stored.model === null && stored.dimension === target.dimension && stored.documentPrefix === target.documentPrefix) {
+      this.store.setEmbeddingModel(target.model);
+      return;
+    }
+
+    // 文檔前綴變更同樣改變向量語義，需要重新向量化
+    if (
+      stored.model === target.model &&
+      stored.dimension === target.dimension &&
+      stored.documentPrefix === target.documentPrefix
+    ) {
+      return;
+    }
+
+    this.migration = { state: 'pending', from: stored, to: target };
+    this.api.logger.warn(
+      `[FaissVectorizer] 索引模型 ${stored.model ?? '未知'} (${stored.dimension} 維) ` +
+      `與配置模型 ${target.model} (${target.dimension} 維) 不一致，` +
+      (this.config.embeddingMigration === 'auto'
+        ? '將自動重新向量化'
+        : '請執行 `openclaw rpc memory-guardian.migrate` 完成遷移')
+    );
+  }
+
+  /**
+   * 是否等待或正在進行模型遷移
+   */
+  needsMigration(): boolean {
+    return this.migration !== null;
+  }
+
+  /**
+   * 用當前模型重新向量化索引中的所有切塊
+   */
+  async migrateEmbeddings(): Promise<{ migrated: number; model: string; dimension: number; documentPrefix: string }> {
+    if (!this.store) {
+      throw new Error('向量存儲未初始化');
+    }
+
+    if (!this.migration) {
+      const info = this.store.getEmbeddingInfo();
+      return { migrated: 0, ...info, model: info.model ?? this.embedder.modelId };
+    }
+
+    if (this.migration.state === 'running') {
+      throw new Error('模型遷移正在進行中');
+    }
+
+    const migration = this.migration;
+    migration.state = 'running';
+    migration.error = undefined;
+    const startTime = Date.now();
+
+    try {
+      const chunks = this.store.getAllDocumentIds().map(id => this.store!.getDocument(id)!);
+      const items: Array<{ chunk: TextChunk; embedding: Float32Array }> = [];
+
+      for (let i = 0; i < chunks.length; i += MIGRATION_BATCH_SIZE) {
+        const batch = chunks.slice(i, i + MIGRATION_BATCH_SIZE);
+        const embeddings = await embedTexts(batch.map(getEmbeddingText), { role: 'document' });
+        batch.forEach((chunk, j) => items.push({ chunk, embedding: embeddings[j] }));
+        this.api.logger.debug(`[FaissVectorizer] 模型遷移進度: ${items.length}/${chunks.length}`);
+      }
+
+      await this.store.rebuild(migration.to, items);
+      await this.store.flush();
+      flushEmbeddingCache();
+      this.migration = null;
+
+      const elapsed = Date.now() - startTime;
+      this.api.logger.info(`[FaissVectorizer] 模型遷移完成: ${items.length} 個切塊，耗時 ${elapsed}ms`);
+
+      return { migrated: items.length, ...migration.to };
+    } catch (error) {
+      migration.state = 'failed';
+      migration.error = error instanceof Error ? error.message : String(error);
+      this.api.logger.error(`[FaissVectorizer] 模型遷移失敗: ${migration.error}`);
+      throw error;
+    }
+  }
+
   /**
    * 啟動任務處理循環
    */
@@ -140,7 +446,8 @@ export class FaissVectorizerService {
    * 處理隊列中的任務
    */
   private async processTasks(): Promise<void> {
-    if (this.isProcessing || this.taskQueue.length === 0 || !this.store) {
+    // 模型遷移完成前，新向量與索引維度/語義空間不一致，暫緩處理
+    if (this.isProcessing || this.taskQueue.length === 0 || !this.store || this.migration) {
       return;
     }
 
@@ -155,8 +462,10 @@ export class FaissVectorizerService {
         await this.processTask(task);
       }
 
-      // 保存索引
+      // 保存索引（先索引後清單，清單只記錄已落盤的切塊）
       await this.store.flush();
+      this.manifest?.flush();
+      flushEmbeddingCache();
 
     } finally {
       this.isProcessing = false;
@@ -172,70 +481,50 @@ export class FaissVectorizerService {
     }
 
     try {
-      let chunks: TextChunk[];
-
-      switch (task.type) {
-        case 'text':
-          chunks = chunkText(task.content, {
-            chunkSize: this.config.chunkSize,
-            chunkOverlap: this.config.chunkOverlap,
-            sourcePath: task.sourcePath,
-            sessionKey: task.sessionKey,
-            metadata: task.metadata,
-          });
-          break;
-
-        case 'file':
-          if (task.sourcePath.endsWith('.md')) {
-            chunks = chunkMarkdown(task.content, {
-              chunkSize: this.config.chunkSize,
-              chunkOverlap: this.config.chunkOverlap,
-              sourcePath: task.sourcePath,
-              sessionKey: task.sessionKey,
-              metadata: task.metadata,
-            });
-          } else {
-            chunks = chunkText(task.content, {
-              chunkSize: this.config.chunkSize,
-              chunkOverlap: this.config.chunkOverlap,
-              sourcePath: task.sourcePath,
-              sessionKey: task.sessionKey,
-              metadata: task.metadata,
-            });
-          }
-          break;
-
-        case 'conversation':
-          chunks = chunkText(task.content, {
-            chunkSize: this.config.chunkSize,
-            chunkOverlap: this.config.chunkOverlap,
-            sourcePath: task.sourcePath,
-            sessionKey: task.sessionKey,
-            metadata: { ...task.metadata, type: 'conversation' },
-          });
-          break;
-
-        default:
-          this.api.logger.warn(`[FaissVectorizer] 未知任務類型: ${(task as any).type}`);
-          return;
-      }
-
-      if (chunks.length === 0) {
+      const chunks = await this.chunkTask(task);
+      if (!chunks) {
+        this.api.logger.warn(`[FaissVectorizer] 未知任務類型: ${(task as any).type}`);
         return;
       }
 
+      this.checkChunkLengths(chunks, task.sourcePath);
+
+      // 切塊 ID 由位置和內容派生：已在索引中（或本批重複）的切塊無需重新向量化
+      const seenIds = new Set<string>();
+      const fresh = chunks.filter(chunk => {
+        if (seenIds.has(chunk.id) || this.store!.getDocumentIdByChunkId(chunk.id) !== undefined) {
+          return false;
+        }
+        seenIds.add(chunk.id);
+        return true;
+      });
+
       // 批量向量化
-      const texts = chunks.map(c => c.text);
-      const embeddings = await embedTexts(texts);
+      const texts = fresh.map(getEmbeddingText);
+      const embeddings = texts.length > 0 ? await embedTexts(texts, { role: 'document' }) : [];
 
-      // 批量添加到索引
-      const items = chunks.map((chunk, i) => ({
+      const items = fresh.map((chunk, i) => ({
         chunk,
         embedding: embeddings[i],
       }));
 
-      const ids = await this.store.addBatch(items);
-      this.api.logger.debug(`[FaissVectorizer] 已索引 ${ids.length} 個切塊，來源: ${task.sourcePath}`);
+      // 工作空間文件：移除該文件中不再存在的舊切塊，保留未變更的切塊
+      if (task.fileState && this.manifest) {
+        await this.removeFileChunks(task.sourcePath, new Set(chunks.map(c => c.id)));
+      }
+
+      // 批量添加到索引
+      const ids = items.length > 0 ? await this.store.addBatch(items) : [];
+
+      if (task.fileState && this.manifest) {
+        this.manifest.set({
+          path: task.sourcePath,
+          ...task.fileState,
+          chunkIds: chunks.map(c => c.id),
+        });
+      }
+
+      this.api.logger.debug(`[FaissVectorizer] 已索引 ${ids.length} 個新切塊（共 ${chunks.length} 個），來源: ${task.sourcePath}`);
 
     } catch (error) {
       this.api.logger.error(`[FaissVectorizer] 處理任務失敗: ${task.id}` + ": " + String(error));
@@ -244,20 +533,35 @@ export class FaissVectorizerService {
 
   /**
    * 搜索相似向量
+   * @param filter 可選的元數據過濾條件
+   * @param options.queryEmbedding 使用預先計算的查詢向量（如 HyDE 假設答案的向量），詞法檢索仍使用查詢文本
    */
-  async search(query: string, topK?: number): Promise<SearchResult[]> {
+  async search(
+    query: string,
+    topK?: number,
+    filter?: SearchFilter,
+    options: { queryEmbedding?: Float32Array } = {}
+  ): Promise<SearchResult[]> {
     if (!this.store) {
       throw new Error('向量存儲未初始化');
     }
 
+    if (this.migration) {
+      this.api.logger.warn('[FaissVectorizer] 索引等待模型遷移，暫停檢索');
+      return [];
+    }
+
     const startTime = Date.now();
     const k = topK || this.config.ragTopK;
 
     // 向量化查詢
-    const queryEmbedding = await embedText(query);
+    const queryEmbedding = options.queryEmbedding || await embedText(query, 'query');
 
     // 搜索
-    const results = await this.store.search(queryEmbedding, k);
+    const lexicalWeight = this.config.lexicalWeight;
+    const results = lexicalWeight > 0
+      ? await this.hybridSearch(query, queryEmbedding, k, lexicalWeight, filter)
+      : await this.store.search(queryEmbedding, k, filter);
 
     const elapsed = Date.now() - startTime;
     this.api.logger.debug(`[FaissVectorizer] 搜索完成，耗時 ${elapsed}ms，返回 ${results.length} 個結果`);
@@ -266,37 +570,135 @@ export class FaissVectorizerService {
   }
 
   /**
-   * 索引工作空間中的文件
+   * 混合檢索：向量檢索與 BM25 詞法檢索各取候選，按加權倒數排名融合
+   * 僅被詞法命中的切塊沒有向量距離，用查詢向量與切塊向量（通常命中嵌入緩存）重新計算
+   */
+  private async hybridSearch(
+    query: string,
+    queryEmbedding: Float32Array,
+    k: number,
+    lexicalWeight: number,
+    filter?: SearchFilter
+  ): Promise<SearchResult[]> {
+    const store = this.store!;
+    const poolSize = Math.max(k * 4, 20);
+
+    const vectorResults = await store.search(queryEmbedding, poolSize, filter);
+    const lexicalResults = store.searchLexical(extractQueryKeywords(query), poolSize, filter);
+
+    const fused = reciprocalRankFusion([
+      { ids: vectorResults.map(r => r.id), weight: 1 - lexicalWeight },
+      { ids: lexicalResults.map(r => r.id), weight: lexicalWeight },
+    ]).slice(0, k);
+
+    const vectorById = new Map(vectorResults.map(r => [r.id, r]));
+    const lexicalById = new Map(lexicalResults.map(r => [r.id, r.chunk]));
+
+    const lexicalOnly = fused
+      .filter(({ id }) => !vectorById.has(id))
+      .map(({ id }) => lexicalById.get(id)!);
+    const embeddings = await this.getChunkEmbeddings(lexicalOnly);
+    const distances = new Map(
+      lexicalOnly.map((chunk, i) => [chunk, 1 - cosineSimilarity(queryEmbedding, embeddings[i])])
+    );
+
+    return fused.map(({ id, score }) => {
+      const vectorResult = vectorById.get(id);
+      if (vectorResult) {
+        return { ...vectorResult, score };
+      }
+      const chunk = lexicalById.get(id)!;
+      return { id, distance: distances.get(chunk)!, chunk, score };
+    });
+  }
+
+  /**
+   * 獲取同一來源的所有切塊，按起始偏移排序，用於擴展相鄰上下文
+   */
+  getSourceChunks(sourcePath: string): TextChunk[] {
+    return this.store?.getChunksBySource(sourcePath).map(({ chunk }) => chunk) || [];
+  }
+
+  /**
+   * 獲取切塊的文檔向量
+   * 優先使用索引中的已存向量；取不到的（如舊索引文件格式無法識別）按索引時相同的文本重新計算
+   */
+  async getChunkEmbeddings(chunks: TextChunk[]): Promise<Float32Array[]> {
+    const embeddings = chunks.map(chunk => {
+      const id = this.store?.getDocumentIdByChunkId(chunk.id);
+      return id === undefined ? undefined : this.store!.getVector(id);
+    });
+
+    const missing = chunks.filter((_, i) => !embeddings[i]);
+    if (missing.length > 0) {
+      const computed = await embedTexts(missing.map(getEmbeddingText), { role: 'document' });
+      let next = 0;
+      embeddings.forEach((embedding, i) => {
+        if (!embedding) {
+          embeddings[i] = computed[next++];
+        }
+      });
+    }
+
+    return embeddings as Float32Array[];
+  }
+
+  /**
+   * 移除某個源文件的舊切塊
+   * 同時按清單記錄的切塊 ID 和 sourcePath 匹配，兼容清單建立前寫入的切塊
+   * @param keep 需要保留的切塊 ID（重新索引後仍存在的切塊）
    */
-  async indexWorkspace(): Promise<{ indexed: number; errors: number }> {
+  private async removeFileChunks(sourcePath: string, keep: Set<string> = new Set()): Promise<number> {
+    if (!this.store) {
+      return 0;
+    }
+
+    const stale = new Set(this.manifest?.get(sourcePath)?.chunkIds || []);
+    return this.store.deleteWhere(
+      chunk => !keep.has(chunk.id) && (stale.has(chunk.id) || chunk.sourcePath === sourcePath)
+    );
+  }
+
+  /**
+   * 增量索引工作空間中的文件
+   * 未變更的文件跳過；已變更的文件重新切塊並替換舊切塊；已刪除的文件移除其切塊
+   * @param options.force 忽略清單，強制重新索引所有文件
+   */
+  async indexWorkspace(options: { force?: boolean } = {}): Promise<{
+    indexed: number;
+    skipped: number;
+    removed: number;
+    errors: number;
+  }> {
     const memoryDir = join(this.workspaceDir, 'memory');
     let indexed = 0;
+    let skipped = 0;
+    let removed = 0;
     let errors = 0;
 
-    if (!existsSync(memoryDir)) {
-      return { indexed, errors };
-    }
-
-    const files = readdirSync(memoryDir).filter(f => f.endsWith('.md'));
+    const files = existsSync(memoryDir)
+      ? readdirSync(memoryDir).filter(f => f.endsWith('.md'))
+      : [];
+    const seen = new Set<string>();
 
     for (const file of files) {
+      const filePath = join(memoryDir, file);
+
       try {
-        const filePath = join(memoryDir, file);
         const stat = statSync(filePath);
         
-        // 跳過太大的文件（> 1MB）
+        // 跳過太大的文件（> 1MB）；不計入 seen，此前索引的切塊隨已刪除文件一併清理
         if (stat.size > 1024 * 1024) {
           this.api.logger.warn(`[FaissVectorizer] 跳過過大的文件: ${file}`);
           continue;
         }
 
-        const content = readFileSync(filePath, 'utf-8');
-        this.addTask({
-          type: 'file',
-          content,
-          sourcePath: filePath,
-          priority: 1,
-        });
+        seen.add(filePath);
+
+        if (this.queueFile(filePath, 'file', stat, options) === 'skipped') {
+          skipped++;
+          continue;
+        }
 
         indexed++;
       } catch (error) {
@@ -305,7 +707,113 @@ export class FaissVectorizerService {
       }
     }
 
-    return { indexed, errors };
+    // 清理已刪除或已超出大小上限的文件的切塊（模型遷移期間跳過，避免與遷移快照衝突，下次索引時再清理）
+    // 只處理 memory 目錄下的文件，transcript 由 indexTranscript 單獨管理
+    if (this.manifest && this.store && !this.migration) {
+      for (const path of this.manifest.paths()) {
+        if (seen.has(path) || !path.startsWith(memoryDir)) continue;
+
+        try {
+          const count = await this.removeFileChunks(path);
+          this.manifest.delete(path);
+          this.api.logger.debug(`[FaissVectorizer] 文件已刪除或過大，移除 ${count} 個切塊: ${path}`);
+          removed++;
+        } catch (error) {
+          this.api.logger.error(`[FaissVectorizer] 移除文件的切塊失敗: ${path}` + ": " + String(error));
+          errors++;
+        }
+      }
+
+      await this.store.flush();
+      this.manifest.flush();
+    }
+
+    return { indexed, skipped, removed, errors };
+  }
+
+  /**
+   * 索引 OpenClaw 會話 transcript（JSONL）
+   * 按消息輪次切塊；內容未變時跳過，變更時替換該 transcript 的舊切塊
+   */
+  indexTranscript(transcriptPath: string, options: { sessionKey?: string; force?: boolean } = {}): { queued: boolean } {
+    if (!existsSync(transcriptPath)) {
+      throw new Error(`Transcript 不存在: ${transcriptPath}`);
+    }
+
+    const stat = statSync(transcriptPath);
+    const result = this.queueFile(transcriptPath, 'conversation', stat, options);
+    return { queued: result === 'queued' };
+  }
+
+  /**
+   * 對比索引清單，文件有變更時加入索引隊列
+   */
+  private queueFile(
+    filePath: string,
+    type: 'file' | 'conversation',
+    stat: { size: number; mtimeMs: number },
+    options: { force?: boolean; sessionKey?: string }
+  ): 'queued' | 'skipped' {
+    const entry = this.manifest?.get(filePath);
+
+    // 大小和修改時間都未變，無需讀取內容
+    if (!options.force && entry && entry.size === stat.size && entry.mtimeMs === stat.mtimeMs) {
+      return 'skipped';
+    }
+
+    const content = readFileSync(filePath, 'utf-8');
+    const hash = hashContent(content);
+
+    // 內容未變（例如只是 touch），只更新文件狀態
+    if (!options.force && entry && entry.hash === hash) {
+      this.manifest!.set({ ...entry, size: stat.size, mtimeMs: stat.mtimeMs });
+      return 'skipped';
+    }
+
+    // 同一版本已在隊列中等待處理
+    if (this.taskQueue.some(t => t.sourcePath === filePath && t.fileState?.hash === hash)) {
+      return 'skipped';
+    }
+
+    // 移除同一文件的過期任務
+    this.taskQueue = this.taskQueue.filter(t => !(t.sourcePath === filePath && t.fileState));
+
+    this.addTask({
+      type,
+      content,
+      sourcePath: filePath,
+      sessionKey: options.sessionKey,
+      fileState: { size: stat.size, mtimeMs: stat.mtimeMs, hash },
+      priority: 1,
+    });
+    return 'queued';
+  }
+
+  /**
+   * 壓縮索引，回收已刪除文檔佔用的向量
+   */
+  async compact(): Promise<{ removed: number; remaining: number }> {
+    if (!this.store) {
+      throw new Error('向量存儲未初始化');
+    }
+
+    // 遷移按文檔 ID 讀取切塊後重建索引，壓縮會在其間重新編號
+    if (this.migration?.state === 'running') {
+      throw new Error('模型遷移正在進行中，請在遷移完成後再壓縮索引');
+    }
+
+    const removed = this.store.getDeletedCount();
+    await this.store.compact();
+    await this.store.flush();
+
+    return { removed, remaining: this.store.getDocumentCount() };
+  }
+
+  /**
+   * 獲取被索引的 workspace 目錄
+   */
+  getWorkspaceDir(): string {
+    return this.workspaceDir;
   }
 
   /**
@@ -314,12 +822,25 @@ export class FaissVectorizerService {
   getStats(): {
     initialized: boolean;
     documentCount: number;
+    deletedCount: number;
+    recovery: RecoveryState;
+    embedding: EmbeddingInfo | null;
+    migration: EmbeddingMigration | null;
+    embeddingCache: EmbeddingCacheStats;
+    /** 本次運行中超出模型最大輸入長度的切塊數 */
+    oversizedChunks: number;
     queueLength: number;
     isProcessing: boolean;
   } {
     return {
       initialized: this.initialized,
       documentCount: this.store?.getDocumentCount() || 0,
+      deletedCount: this.store?.getDeletedCount() || 0,
+      recovery: this.store?.getRecoveryState() || 'none',
+      embedding: this.store?.getEmbeddingInfo() || null,
+      migration: this.migration,
+      embeddingCache: getEmbeddingCacheStats(),
+      oversizedChunks: this.oversizedChunks,
       queueLength: this.taskQueue.length,
       isProcessing: this.isProcessing,
     };
@@ -334,8 +855,11 @@ export class FaissVectorizerService {
     if (this.store) {
       await this.store.flush();
     }
+    this.manifest?.flush();
+    flushEmbeddingCache();
 
     await disposeEmbeddings();
+    await disposeReranker();
     this.api.logger.info('[FaissVectorizer] 服務已關閉');
   }
 }
@@ -365,9 +889,25 @@ export function createFaissVectorizerService(
       await service.initialize();
       service.startProcessing();
 
+      // 模型變更時在後台自動遷移，不阻塞 Gateway 啟動
+      if (service.needsMigration() && config.embeddingMigration === 'auto') {
+        service.migrateEmbeddings().catch(() => {
+          // 錯誤已在 migrateEmbeddings 中記錄，可通過 memory-guardian.migrate 重試
+        });
+      }
+
+      // 在後台預加載重排序模型，加載完成前檢索回退到原有排序
+      if (config.rerankEnabled) {
+        initReranker(config.rerankModel).catch(error => {
+          api.logger.error('[FaissVectorizer] 加載 rerank 模型失敗: ' + String(error));
+        });
+      }
+
       // 啟動時索引工作空間
-      const { indexed, errors } = await service.indexWorkspace();
-      api.logger.info(`[FaissVectorizer] 工作空間索引完成: ${indexed} 個文件，${errors} 個錯誤`);
+      const { indexed, skipped, removed, errors } = await service.indexWorkspace();
+      api.logger.info(
+        `[FaissVectorizer] 工作空間索引完成: ${indexed} 個文件待索引，${skipped} 個未變更，${removed} 個已移除，${errors} 個錯誤`
+      );
     },
 
     async stop(): Promise<void> {
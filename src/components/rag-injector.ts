@@ -13,22 +13,37 @@
  * - 提供 Gateway RPC 接口供手動查詢
  */
 
-import type { MemoryGuardianConfig, RagInjection, SearchResult } from '../types.js';
-import { getFaissVectorizerService } from './faiss-vectorizer.js';
+import type { MemoryGuardianConfig, RagInjection, SearchResult, SearchFilter } from '../types.js';
+import { getFaissVectorizerService, type FaissVectorizerService } from './faiss-vectorizer.js';
+import { formatChunkLocation, getEmbeddingText, estimateTokens } from '../utils/chunk.js';
+import { rerank } from '../utils/reranker.js';
+import { maximalMarginalRelevance } from '../utils/mmr.js';
+import { scoreMemory, retrievalRelevance } from '../utils/memory-scoring.js';
+import { assembleContext, ContextPriority } from '../utils/context-assembler.js';
+import { generateHypotheticalAnswer } from '../utils/llm-summarizer.js';
+import { expandWithNeighbors } from '../utils/neighbor-expansion.js';
+import { embedText, embedTexts, averageEmbeddings } from '../utils/embeddings.js';
 
 // 檢索超時警告閾值
 const SEARCH_TIMEOUT_WARNING_MS = 300;
 
+// MMR 多樣化時的候選數量（相對 ragTopK 的倍數）
+const MMR_CANDIDATE_FACTOR = 4;
+
 /**
  * 執行 RAG 檢索
  * 
  * @param query 用戶查詢
  * @param config 配置
+ * @param filter 可選的元數據過濾條件
+ * @param options.formatXml 是否組裝 historicalMemoryXml，自行格式化結果的調用方可關閉，避免重複佔用 RAG 層預算
  * @returns RAG 注入結果
  */
 export async function performRagRetrieval(
   query: string,
-  config: MemoryGuardianConfig
+  config: MemoryGuardianConfig,
+  filter?: SearchFilter,
+  options: { formatXml?: boolean } = {}
 ): Promise<RagInjection | null> {
   const service = getFaissVectorizerService();
   
@@ -46,8 +61,29 @@ export async function performRagRetrieval(
   const startTime = Date.now();
 
   try {
-    // 執行檢索
-    const results = await service.search(query, config.ragTopK);
+    // 執行檢索；啟用重排序或多樣化時多取候選，再從中選出 top-k
+    const diversify = config.mmrLambda < 1;
+    const candidateCount = Math.max(
+      config.ragTopK,
+      config.rerankEnabled ? config.rerankCandidates : 0,
+      diversify ? config.ragTopK * MMR_CANDIDATE_FACTOR : 0
+    );
+    const hyde = config.hydeMode !== 'off' ? await buildHydeEmbedding(query, config) : null;
+    let candidates = await service.search(query, candidateCount, filter, { queryEmbedding: hyde?.embedding });
+    if (config.rerankEnabled) {
+      candidates = await rerankResults(query, candidates, config);
+    }
+    candidates = applyRelevanceThreshold(scoreResults(candidates, config), config);
+    const selected = diversify
+      ? await diversifyResults(service, candidates, config)
+      : candidates.slice(0, config.ragTopK);
+
+    // 用相鄰切塊補全命中切塊的上下文
+    const results = expandWithNeighbors(
+      selected,
+      sourcePath => service.getSourceChunks(sourcePath),
+      { maxChunks: config.ragNeighborChunks, maxTokens: config.ragNeighborMaxTokens }
+    );
     
     const searchTimeMs = Date.now() - startTime;
     
@@ -56,23 +92,30 @@ export async function performRagRetrieval(
       console.warn(`[RagInjector] 檢索耗時 ${searchTimeMs}ms，超過 ${SEARCH_TIMEOUT_WARNING_MS}ms 閾值`);
     }
 
-    if (results.length === 0) {
+    if (results.length === 0 || options.formatXml === false) {
       return {
         query,
-        results: [],
+        results,
         historicalMemoryXml: '',
         searchTimeMs,
+        hypotheticalAnswer: hyde?.answer,
       };
     }
 
     // 格式化為 XML
-    const historicalMemoryXml = formatHistoricalMemoryXml(results, query);
+    const historicalMemoryXml = formatHistoricalMemoryXml(
+      results,
+      query,
+      config.contextTokenBudget.rag,
+      service.getWorkspaceDir()
+    );
 
     return {
       query,
       results,
       historicalMemoryXml,
       searchTimeMs,
+      hypotheticalAnswer: hyde?.answer,
     };
 
   } catch (error) {
@@ -81,36 +124,230 @@ export async function performRagRetrieval(
   }
 }
 
+/**
+ * HyDE：由本地 LLM 生成假設答案，用答案的向量（或與查詢向量的平均）檢索
+ * 生成失敗或超時時返回 null，回退到查詢向量
+ */
+async function buildHydeEmbedding(
+  query: string,
+  config: MemoryGuardianConfig
+): Promise<{ answer: string; embedding: Float32Array } | null> {
+  const startTime = Date.now();
+  try {
+    const answer = await generateHypotheticalAnswer(
+      query,
+      { endpoint: config.localLlmEndpoint, model: config.localLlmModel },
+      config.hydeTimeoutMs
+    );
+    if (!answer) {
+      return null;
+    }
+
+    // 假設答案與記憶同屬文檔，按文檔角色向量化；一次性文本，不寫入緩存
+    const [answerEmbedding] = await embedTexts([answer], { role: 'document', priority: 'high', cache: false });
+    const embedding = config.hydeMode === 'average'
+      ? averageEmbeddings([await embedText(query, 'query'), answerEmbedding])
+      : answerEmbedding;
+
+    console.log(`[RagInjector] HyDE 假設答案生成完成，耗時 ${Date.now() - startTime}ms`);
+    return { answer, embedding };
+  } catch (error) {
+    console.warn(`[RagInjector] HyDE 失敗，回退到查詢向量: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * 以 cross-encoder 重排序候選
+ * 模型未就緒、超出時間預算或推理失敗時保留檢索排序
+ */
+async function rerankResults(
+  query: string,
+  candidates: SearchResult[],
+  config: MemoryGuardianConfig
+): Promise<SearchResult[]> {
+  if (candidates.length <= 1) {
+    return candidates;
+  }
+
+  const startTime = Date.now();
+  let scores: number[] | null = null;
+  try {
+    scores = await rerank(query, candidates.map(r => getEmbeddingText(r.chunk)), {
+      model: config.rerankModel,
+      timeoutMs: config.rerankTimeoutMs,
+    });
+  } catch (error) {
+    console.error('[RagInjector] 重排序失敗:', error);
+  }
+
+  if (!scores) {
+    console.warn(`[RagInjector] 重排序未完成（${Date.now() - startTime}ms），回退到檢索排序`);
+    return candidates;
+  }
+
+  return candidates
+    .map((result, i) => ({ ...result, rerankScore: scores![i] }))
+    .sort((a, b) => b.rerankScore - a.rerankScore);
+}
+
+/**
+ * 結合相似度、時效和重要度為候選評分，按綜合評分降序排列
+ */
+function scoreResults(candidates: SearchResult[], config: MemoryGuardianConfig): SearchResult[] {
+  const now = Date.now();
+  return candidates
+    .map(result => ({
+      ...result,
+      scoreBreakdown: scoreMemory(result, {
+        halfLifeDays: config.recencyHalfLifeDays,
+        recencyWeight: config.recencyWeight,
+        importanceWeights: config.importanceWeights,
+        now,
+      }),
+    }))
+    .sort((a, b) => b.scoreBreakdown.final - a.scoreBreakdown.final);
+}
+
+/**
+ * 按相關度門檻篩選已評分的候選，返回數量隨之自適應（最多 ragTopK 個）
+ * - 檢索相關度低於 ragMinSimilarity 的丟棄：混合檢索按歸一化融合分數，使僅被詞法命中的精確標識符不因向量相似度低而丟失；
+ *   僅向量檢索按 1 - distance；重排序分數的分佈不同（接近 0 或 1），不用於此門檻
+ * - 綜合評分低於最高分 × ragRelativeCutoff 的丟棄
+ * 全部被丟棄且 ragAllowEmpty 為 false 時保留最高分的一條
+ */
+function applyRelevanceThreshold(candidates: SearchResult[], config: MemoryGuardianConfig): SearchResult[] {
+  if (candidates.length === 0) {
+    return candidates;
+  }
+
+  const bestScore = candidates[0].scoreBreakdown?.final ?? 0;
+  const relevant = candidates.filter(result =>
+    retrievalRelevance(result) >= config.ragMinSimilarity &&
+    (!result.scoreBreakdown || result.scoreBreakdown.final >= bestScore * config.ragRelativeCutoff)
+  );
+
+  if (relevant.length < candidates.length) {
+    console.log(`[RagInjector] 相關度門檻過濾 ${candidates.length - relevant.length} 個候選，剩餘 ${relevant.length} 個`);
+  }
+
+  if (relevant.length === 0 && !config.ragAllowEmpty) {
+    return candidates.slice(0, 1);
+  }
+  return relevant;
+}
+
+/**
+ * 以 MMR 從候選中選出 top-k，覆蓋不同的相關記憶
+ */
+async function diversifyResults(
+  service: FaissVectorizerService,
+  candidates: SearchResult[],
+  config: MemoryGuardianConfig
+): Promise<SearchResult[]> {
+  if (candidates.length <= config.ragTopK) {
+    return candidates;
+  }
+
+  try {
+    const embeddings = await service.getChunkEmbeddings(candidates.map(r => r.chunk));
+    const relevance = candidates.map(r => r.scoreBreakdown?.final ?? retrievalRelevance(r));
+    return maximalMarginalRelevance(relevance, embeddings, config.ragTopK, config.mmrLambda)
+      .map(i => candidates[i]);
+  } catch (error) {
+    console.error('[RagInjector] MMR 多樣化失敗，回退到相關度排序:', error);
+    return candidates.slice(0, config.ragTopK);
+  }
+}
+
+/**
+ * 在 token 預算內選擇要注入的 RAG 結果
+ * 按排名依次納入，放不下時截斷內容，剩餘預算過少時丟棄
+ * @param overhead 每條結果除內容外的渲染開銷（token 數）
+ * @returns 納入的結果，內容可能已截斷
+ */
+export function budgetRagResults(
+  results: SearchResult[],
+  tokenBudget: number,
+  overhead: (result: SearchResult) => number
+): SearchResult[] {
+  const { items } = assembleContext(
+    'rag',
+    results.map((result, id) => ({
+      section: 'memory',
+      id,
+      text: result.chunk.text,
+      priority: ContextPriority.RagHit,
+      overhead: overhead(result),
+    })),
+    tokenBudget
+  );
+
+  return items.map(item => {
+    const result = results[item.id!];
+    return item.text === result.chunk.text
+      ? result
+      : { ...result, chunk: { ...result.chunk, text: item.text } };
+  });
+}
+
 /**
  * 格式化 RAG 結果為 XML
+ * @param tokenBudget RAG 層的 token 預算
+ * @param workspaceDir 來源位置相對此目錄輸出
  */
-function formatHistoricalMemoryXml(results: SearchResult[], query: string): string {
+function formatHistoricalMemoryXml(
+  results: SearchResult[],
+  query: string,
+  tokenBudget: number,
+  workspaceDir: string
+): string {
   if (results.length === 0) {
     return '';
   }
 
-  const parts: string[] = [
+  const header = [
     '<historical_memory>',
     `  <query>${escapeXml(query)}</query>`,
     `  <retrieved_at>${new Date().toISOString()}</retrieved_at>`,
     '  <memories>',
   ];
+  const footer = ['  </memories>', '</historical_memory>'];
 
-  for (const result of results) {
-    parts.push('    <memory>');
-    parts.push(`      <relevance_score>${(1 - result.distance).toFixed(4)}</relevance_score>`);
-    parts.push(`      <source>${escapeXml(result.chunk.sourcePath)}</source>`);
-    if (result.chunk.sessionKey) {
-      parts.push(`      <session>${escapeXml(result.chunk.sessionKey)}</session>`);
-    }
-    parts.push(`      <timestamp>${new Date(result.chunk.timestamp).toISOString()}</timestamp>`);
-    parts.push(`      <content>${escapeXml(result.chunk.text)}</content>`);
-    parts.push('    </memory>');
+  const frameTokens = estimateTokens([...header, ...footer].join('\n'));
+  const injected = budgetRagResults(
+    results,
+    tokenBudget - frameTokens,
+    result => estimateTokens(formatMemoryXml(result, workspaceDir, ''))
+  );
+  if (injected.length === 0) {
+    return '';
   }
 
-  parts.push('  </memories>');
-  parts.push('</historical_memory>');
+  return [...header, ...injected.map(result => formatMemoryXml(result, workspaceDir)), ...footer].join('\n');
+}
 
+/**
+ * 格式化單條記憶
+ * @param content 覆蓋切塊內容（用於計算標籤開銷）
+ */
+function formatMemoryXml(result: SearchResult, workspaceDir: string, content: string = result.chunk.text): string {
+  const parts: string[] = ['    <memory>'];
+  parts.push(`      <relevance_score>${(1 - result.distance).toFixed(4)}</relevance_score>`);
+  if (result.scoreBreakdown) {
+    const { similarity, recency, importance, final } = result.scoreBreakdown;
+    parts.push(
+      `      <score final="${final.toFixed(4)}" similarity="${similarity.toFixed(4)}" ` +
+      `recency="${recency.toFixed(4)}" importance="${importance.toFixed(2)}"/>`
+    );
+  }
+  parts.push(`      <source>${escapeXml(formatChunkLocation(result.chunk, workspaceDir))}</source>`);
+  if (result.chunk.sessionKey) {
+    parts.push(`      <session>${escapeXml(result.chunk.sessionKey)}</session>`);
+  }
+  parts.push(`      <timestamp>${new Date(result.chunk.timestamp).toISOString()}</timestamp>`);
+  parts.push(`      <content>${escapeXml(content)}</content>`);
+  parts.push('    </memory>');
   return parts.join('\n');
 }
 
@@ -214,23 +451,6 @@ export function shouldPerformRag(query: string): boolean {
 
 /**
  * 計算查詢的檢索關鍵詞
- * 用於優化檢索效果
+ * 分詞規則與 BM25 詞法索引一致
  */
-export function extractQueryKeywords(query: string): string[] {
-  // 移除標點符號
-  const cleaned = query.replace(/[^\w\s\u4e00-\u9fa5]/g, ' ');
-  
-  // 分詞
-  const words = cleaned.split(/\s+/).filter(w => w.length > 1);
-  
-  // 移除停用詞
-  const stopWords = new Set([
-    'the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been',
-    'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would',
-    'could', 'should', 'may', 'might', 'can', 'must',
-    '的', '了', '是', '在', '有', '和', '與', '或', '但',
-    '這', '那', '我', '你', '他', '她', '它', '們',
-  ]);
-  
-  return words.filter(w => !stopWords.has(w.toLowerCase()));
-}
+export { extractQueryKeywords } from '../utils/search-tokenizer.js';
@@ -5,8 +5,11 @@
  * 每次 Agent 回覆前自動執行 RAG 檢索並注入相關記憶
  */
 
-import { performRagRetrieval } from '../../components/rag-injector.js';
+import { performRagRetrieval, budgetRagResults } from '../../components/rag-injector.js';
+import { estimateTokens, formatChunkLocation } from '../../utils/chunk.js';
+import type { MemoryGuardianConfig, SearchResult } from '../../types.js';
 import { DEFAULT_CONFIG } from '../../types.js';
+import { constructQuery, type ChatMessage } from '../../utils/query-rewriter.js';
 
 // Typed hook event for before_prompt_build
 interface BeforePromptBuildEvent {
@@ -39,17 +42,10 @@ let lastTimestamp: number = 0;
 const CACHE_TTL = 5000; // 5 秒緩存
 
 /**
- * 格式化 RAG 結果為 XML（含去重）
+ * 格式化 RAG 結果為 XML（含去重，按 token 預算截斷）
+ * @param workspaceDir 來源位置相對此目錄輸出
  */
-function formatRagResultsXml(results: Array<{
-  id: number;
-  distance: number;
-  chunk: {
-    text: string;
-    sourcePath: string;
-    timestamp?: number;
-  };
-}>): string {
+function formatRagResultsXml(results: SearchResult[], tokenBudget: number, workspaceDir: string): string {
   if (results.length === 0) {
     return '';
   }
@@ -69,32 +65,52 @@ function formatRagResultsXml(results: Array<{
     return '';
   }
 
-  const items = dedupedResults.map((r, idx) => {
-    const relevance = (1 - r.distance).toFixed(2);
-    const source = r.chunk.sourcePath.replace(/^.*\/\.openclaw\/workspace\//, '');
-    return `[${idx + 1}] (來源: ${source}, 相關度: ${relevance})
-${r.chunk.text.trim()}`;
-  }).join('\n\n');
-
-  return `<historical_memory>
+  const header = `<historical_memory>
 以下是與當前對話相關的歷史記憶片段：
 
-${items}
+`;
+  const footer = `
 </historical_memory>`;
+
+  const formatItem = (r: SearchResult, idx: number, text: string = r.chunk.text.trim()) => {
+    const relevance = (1 - r.distance).toFixed(2);
+    const source = formatChunkLocation(r.chunk, workspaceDir);
+    const score = r.scoreBreakdown
+      ? `, 時效: ${r.scoreBreakdown.recency.toFixed(2)}, 重要度: ${r.scoreBreakdown.importance.toFixed(2)}, 綜合: ${r.scoreBreakdown.final.toFixed(2)}`
+      : '';
+    return `[${idx + 1}] (來源: ${source}, 相關度: ${relevance}${score})
+${text}`;
+  };
+
+  const injected = budgetRagResults(
+    dedupedResults.map(r => ({ ...r, chunk: { ...r.chunk, text: r.chunk.text.trim() } })),
+    tokenBudget - estimateTokens(header + footer),
+    r => estimateTokens(formatItem(r, 0, '') + '\n\n')
+  );
+
+  if (injected.length === 0) {
+    return '';
+  }
+
+  return header + injected.map((r, idx) => formatItem(r, idx)).join('\n\n') + footer;
 }
 
 /**
- * 從 event messages 提取用戶查詢
+ * 從 event messages 提取用戶查詢及其之前的對話
  */
-function extractUserQuery(event: BeforePromptBuildEvent): string | null {
+function extractUserQuery(event: BeforePromptBuildEvent): { query: string; history: ChatMessage[] } | null {
+  const toText = (content: unknown) => typeof content === 'string' ? content : JSON.stringify(content);
+
   // 從 messages 數組獲取最後一條用戶消息
   if (event.messages && Array.isArray(event.messages)) {
     for (let i = event.messages.length - 1; i >= 0; i--) {
       const msg = event.messages[i];
       if (msg?.role === 'user' && msg?.content) {
-        return typeof msg.content === 'string' 
-          ? msg.content 
-          : JSON.stringify(msg.content);
+        const history = event.messages
+          .slice(0, i)
+          .filter(m => m?.content && (m.role === 'user' || m.role === 'assistant'))
+          .map(m => ({ role: m.role, content: toText(m.content) }));
+        return { query: toText(msg.content), history };
       }
     }
   }
@@ -105,66 +121,90 @@ function extractUserQuery(event: BeforePromptBuildEvent): string | null {
 // 只對這些 agents 啟用 RAG 注入（其他 agents 有自己嘅 workspace 同身份）
 const ALLOWED_AGENTS = ['main', 'main-lite'];
 
-const handler: BeforePromptBuildHandler = async (event, ctx) => {
-  const startTime = Date.now();
-  
-  try {
-    // 檢查是否為允許的 agent
-    if (!ALLOWED_AGENTS.includes(ctx.agentId)) {
-      console.log(`[rag-inject] 跳過 agent "${ctx.agentId}"（只對 main/main-lite 啟用）`);
-      return;
-    }
-
-    // 提取用戶查詢
-    const userQuery = extractUserQuery(event);
+/**
+ * 創建 RAG Inject Hook Handler
+ * @param config 插件配置
+ */
+export function createRagInjectHandler(config: MemoryGuardianConfig): BeforePromptBuildHandler {
+  return async (event, ctx) => {
+    const startTime = Date.now();
     
-    if (!userQuery || userQuery.length < MIN_QUERY_LENGTH) {
-      return;
-    }
+    try {
+      // 檢查是否為允許的 agent
+      if (!ALLOWED_AGENTS.includes(ctx.agentId)) {
+        console.log(`[rag-inject] 跳過 agent "${ctx.agentId}"（只對 main/main-lite 啟用）`);
+        return;
+      }
 
-    // 檢查緩存
-    const now = Date.now();
-    if (lastQuery === userQuery && lastResult && (now - lastTimestamp) < CACHE_TTL) {
-      console.log(`[rag-inject] 使用緩存結果`);
-      return { prependContext: lastResult };
-    }
+      // 提取用戶查詢
+      const extracted = extractUserQuery(event);
+      const userQuery = extracted?.query;
+      
+      if (!extracted || !userQuery?.trim()) {
+        return;
+      }
 
-    console.log(`[rag-inject] 開始 RAG 檢索: "${userQuery.substring(0, 50)}..."`);
+      // 結合前幾輪對話構建檢索查詢；「再做一次」等短追問在補全上下文後才判斷長度
+      const constructed = await constructQuery(userQuery, extracted.history, {
+        contextTurns: config.queryContextTurns,
+        rewrite: config.queryRewriteEnabled,
+        timeoutMs: config.queryRewriteTimeoutMs,
+        llm: { endpoint: config.localLlmEndpoint, model: config.localLlmModel },
+      });
+
+      if (constructed.query.trim().length < MIN_QUERY_LENGTH) {
+        return;
+      }
 
-    // 執行 RAG 檢索
-    const ragResult = await performRagRetrieval(userQuery, {
-      ...DEFAULT_CONFIG,
-      ragTopK: 5,
-    });
+      // 檢查緩存（同一消息在不同上下文中的檢索查詢不同）
+      const now = Date.now();
+      if (lastQuery === constructed.query && lastResult && (now - lastTimestamp) < CACHE_TTL) {
+        console.log(`[rag-inject] 使用緩存結果`);
+        return { prependContext: lastResult };
+      }
 
-    const elapsed = Date.now() - startTime;
+      console.log(`[rag-inject] 開始 RAG 檢索: "${userQuery.substring(0, 50)}..."`);
+      if (constructed.method !== 'raw') {
+        console.log(
+          `[rag-inject] 查詢構建 (${constructed.method}, ${constructed.elapsedMs}ms): ` +
+          `"${constructed.original.substring(0, 50)}" → "${constructed.query.substring(0, 100)}"`
+        );
+      }
 
-    if (!ragResult || ragResult.results.length === 0) {
-      console.log(`[rag-inject] 無相關結果，耗時 ${elapsed}ms`);
-      return;
-    }
+      // 執行 RAG 檢索（結果由本 Hook 格式化，跳過 XML 組裝）
+      const ragResult = await performRagRetrieval(constructed.query, config, undefined, { formatXml: false });
 
-    // 檢查是否超時
-    if (elapsed > MAX_RETRIEVAL_TIME) {
-      console.warn(`[rag-inject] 檢索超時: ${elapsed}ms > ${MAX_RETRIEVAL_TIME}ms`);
-    }
+      const elapsed = Date.now() - startTime;
 
-    // 格式化結果
-    const formattedContext = formatRagResultsXml(ragResult.results);
+      if (!ragResult || ragResult.results.length === 0) {
+        console.log(`[rag-inject] 無相關結果，耗時 ${elapsed}ms`);
+        return;
+      }
 
-    // 更新緩存
-    lastQuery = userQuery;
-    lastResult = formattedContext;
-    lastTimestamp = now;
+      // 檢查是否超時
+      if (elapsed > MAX_RETRIEVAL_TIME) {
+        console.warn(`[rag-inject] 檢索超時: ${elapsed}ms > ${MAX_RETRIEVAL_TIME}ms`);
+      }
 
-    console.log(`[rag-inject] 檢索完成，返回 ${ragResult.results.length} 條結果，耗時 ${elapsed}ms`);
+      // 格式化結果
+      const formattedContext = formatRagResultsXml(ragResult.results, config.contextTokenBudget.rag, ctx.workspaceDir);
 
-    return { prependContext: formattedContext };
+      // 更新緩存
+      lastQuery = constructed.query;
+      lastResult = formattedContext;
+      lastTimestamp = now;
 
-  } catch (error) {
-    console.error(`[rag-inject] 檢索失敗:`, error);
-    return;
-  }
-};
+      console.log(`[rag-inject] 檢索完成，返回 ${ragResult.results.length} 條結果，耗時 ${elapsed}ms`);
+
+      return { prependContext: formattedContext };
+
+    } catch (error) {
+      console.error(`[rag-inject] 檢索失敗:`, error);
+      return;
+    }
+  };
+}
+
+const handler = createRagInjectHandler(DEFAULT_CONFIG);
 
 export default handler;
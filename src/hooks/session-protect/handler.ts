@@ -7,6 +7,7 @@
 
 import type { HookHandler, HookEvent } from '../../types.js';
 import { buildCriticalContext, saveCriticalContext } from '../../components/anti-amnesia-injector.js';
+import { getFaissVectorizerService } from '../../components/faiss-vectorizer.js';
 import { DEFAULT_CONFIG } from '../../types.js';
 import { join } from 'path';
 
@@ -55,6 +56,19 @@ const handler: HookHandler = async (event: HookEvent): Promise<void> => {
   } catch (error) {
     console.error('[session-protect] 保存 Critical Context 失敗:', error);
   }
+
+  // 將即將結束的會話按輪次加入向量索引，供之後的 RAG 檢索
+  const faissService = getFaissVectorizerService();
+  if (transcriptPath && faissService) {
+    try {
+      const { queued } = faissService.indexTranscript(transcriptPath, { sessionKey: event.sessionKey });
+      if (queued) {
+        console.log(`[session-protect] 會話 transcript 已加入索引隊列`);
+      }
+    } catch (error) {
+      console.error('[session-protect] 索引 transcript 失敗:', error);
+    }
+  }
 };
 
 export default handler;
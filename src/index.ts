@@ -14,14 +14,16 @@
  * - 提供 Gateway RPC 接口
  */
 
-import type { MemoryGuardianConfig, PluginApi, DailyReport } from './types.js';
+import type { MemoryGuardianConfig, PluginApi, DailyReport, SearchFilter, ChunkType, HydeMode } from './types.js';
 import { DEFAULT_CONFIG } from './types.js';
 import { createHeartbeatSummarizer, triggerSummarization, getLatestReport } from './components/heartbeat-summarizer.js';
 import { createFaissVectorizerService, getFaissVectorizerService } from './components/faiss-vectorizer.js';
 import { performRagRetrieval } from './components/rag-injector.js';
+import { formatChunkLocation } from './utils/chunk.js';
+import { getContextUsage } from './utils/context-assembler.js';
 import sessionProtectHandler from './hooks/session-protect/handler.js';
-import bootstrapInjectHandler from './hooks/bootstrap-inject/handler.js';
-import ragInjectHandler from './hooks/rag-inject/handler.js';
+import { createBootstrapInjectHandler } from './hooks/bootstrap-inject/handler.js';
+import { createRagInjectHandler } from './hooks/rag-inject/handler.js';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
@@ -42,6 +44,11 @@ function mergeConfig(userConfig: Partial<MemoryGuardianConfig> = {}): MemoryGuar
   return {
     ...DEFAULT_CONFIG,
     ...userConfig,
+    // 只配置部分注入層時，其餘層沿用默認預算
+    contextTokenBudget: {
+      ...DEFAULT_CONFIG.contextTokenBudget,
+      ...userConfig.contextTokenBudget,
+    },
   };
 }
 
@@ -67,6 +74,24 @@ function getWorkspaceDir(api: PluginApi): string {
   return join(home, '.openclaw', 'workspace');
 }
 
+/**
+ * 解析 RPC 時間參數
+ * 接受毫秒時間戳或任何 Date.parse 可識別的字符串（如 ISO 8601）
+ */
+function parseTimeParam(value: number | string | undefined, name: string): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  const parsed = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
 /**
  * Plugin 註冊函數
  */
@@ -82,7 +107,8 @@ export function register(api: PluginApi): void {
   api.logger.info(`  - Workspace: ${workspaceDir}`);
   api.logger.info(`  - 摘要間隔: ${config.summarizeIntervalMs}ms`);
   api.logger.info(`  - RAG Top-K: ${config.ragTopK}`);
-  api.logger.info(`  - Embedding 模型: ${config.embeddingModel}`);
+  api.logger.info(`  - 注入預算: critical ${config.contextTokenBudget.critical} / rag ${config.contextTokenBudget.rag} tokens`);
+  api.logger.info(`  - Embedding 模型: ${config.embeddingProvider}/${config.embeddingModel}`);
 
   // ============================================================
   // 1. 註冊 Heartbeat Summarizer 服務
@@ -112,7 +138,7 @@ export function register(api: PluginApi): void {
   // 註冊 Bootstrap Inject Hook (新 session 啟動時注入上下文)
   try {
     // @ts-ignore - OpenClaw API 支援 opts.name 但 types 未更新
-    api.registerHook(['agent:bootstrap'], bootstrapInjectHandler, {
+    api.registerHook(['agent:bootstrap'], createBootstrapInjectHandler(config), {
       name: 'mg-bootstrap-inject',
       description: '新 session 啟動時注入 critical_context'
     });
@@ -123,7 +149,7 @@ export function register(api: PluginApi): void {
 
   // 註冊 RAG Inject Hook (每次回覆前自動 RAG)
   try {
-    (api as any).on('before_prompt_build', ragInjectHandler);
+    (api as any).on('before_prompt_build', createRagInjectHandler(config));
     api.logger.info('[MemoryGuardian] RAG Inject Hook 已註冊');
   } catch (error) {
     api.logger.error('[MemoryGuardian] 註冊 RAG Inject Hook 失敗:' + ": " + String(error));
@@ -139,6 +165,12 @@ export function register(api: PluginApi): void {
     const faissStats = faissService?.getStats() || {
       initialized: false,
       documentCount: 0,
+      deletedCount: 0,
+      recovery: 'none',
+      embedding: null,
+      migration: null,
+      embeddingCache: { hits: 0, misses: 0, size: 0, maxEntries: config.embeddingCacheSize },
+      oversizedChunks: 0,
       queueLength: 0,
       isProcessing: false,
     };
@@ -150,9 +182,12 @@ export function register(api: PluginApi): void {
       config: {
         summarizeIntervalMs: config.summarizeIntervalMs,
         ragTopK: config.ragTopK,
+        embeddingProvider: config.embeddingProvider,
         embeddingModel: config.embeddingModel,
+        contextTokenBudget: config.contextTokenBudget,
       },
       faiss: faissStats,
+      context: getContextUsage(),
     });
   });
 
@@ -185,28 +220,66 @@ export function register(api: PluginApi): void {
 
   // RAG 檢索
   api.registerGatewayMethod('memory-guardian.search', async ({ respond, params }) => {
-    const { query, topK } = params as { query?: string; topK?: number };
+    const { query, topK, hyde, sessionKey, sourcePath, since, until, type } = params as {
+      query?: string;
+      topK?: number;
+      hyde?: HydeMode;
+      sessionKey?: string | string[];
+      sourcePath?: string;
+      since?: number | string;
+      until?: number | string;
+      type?: ChunkType | ChunkType[];
+    };
     
     if (!query) {
       respond(false, { error: 'Query is required' });
       return;
     }
 
+    if (hyde !== undefined && !['off', 'answer', 'average'].includes(hyde)) {
+      respond(false, { error: `Invalid hyde: ${hyde}` });
+      return;
+    }
+
+    const filter: SearchFilter = { sessionKey, sourcePath, type };
+    try {
+      filter.since = parseTimeParam(since, 'since');
+      filter.until = parseTimeParam(until, 'until');
+    } catch (error) {
+      respond(false, { error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
     try {
-      const configWithTopK = topK ? { ...config, ragTopK: topK } : config;
-      const result = await performRagRetrieval(query, configWithTopK);
+      const searchConfig = {
+        ...config,
+        ...(topK ? { ragTopK: topK } : {}),
+        ...(hyde ? { hydeMode: hyde } : {}),
+      };
+      const result = await performRagRetrieval(query, searchConfig, filter);
+      const locationBase = getFaissVectorizerService()?.getWorkspaceDir() ?? workspaceDir;
       
       if (result) {
         respond(true, {
           success: true,
           query: result.query,
           searchTimeMs: result.searchTimeMs,
+          hypotheticalAnswer: result.hypotheticalAnswer,
           results: result.results.map(r => ({
             id: r.id,
             distance: r.distance,
+            score: r.score,
+            rerankScore: r.rerankScore,
+            scoreBreakdown: r.scoreBreakdown,
             text: r.chunk.text,
             source: r.chunk.sourcePath,
+            location: formatChunkLocation(r.chunk, locationBase),
+            startLine: r.chunk.startLine,
+            endLine: r.chunk.endLine,
+            sessionKey: r.chunk.sessionKey,
+            type: r.chunk.metadata?.type,
             timestamp: r.chunk.timestamp,
+            expandedChunkIds: r.chunk.metadata?.expandedChunkIds,
           })),
         });
       } else {
@@ -249,8 +322,74 @@ export function register(api: PluginApi): void {
     respond(true, { success: true, taskId });
   });
 
+  // 索引會話 transcript
+  api.registerGatewayMethod('memory-guardian.indexTranscript', async ({ respond, params }) => {
+    const { path, sessionKey, force } = (params || {}) as {
+      path?: string;
+      sessionKey?: string;
+      force?: boolean;
+    };
+
+    if (!path) {
+      respond(false, { error: 'Path is required' });
+      return;
+    }
+
+    const faissService = getFaissVectorizerService();
+    if (!faissService) {
+      respond(false, { error: 'FAISS service not initialized' });
+      return;
+    }
+
+    try {
+      const result = faissService.indexTranscript(path, { sessionKey, force });
+      respond(true, { success: true, ...result });
+    } catch (error) {
+      respond(false, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
   // 重建索引
-  api.registerGatewayMethod('memory-guardian.reindex', async ({ respond }) => {
+  api.registerGatewayMethod('memory-guardian.reindex', async ({ respond, params }) => {
+    const { force } = (params || {}) as { force?: boolean };
+    const faissService = getFaissVectorizerService();
+    if (!faissService) {
+      respond(false, { error: 'FAISS service not initialized' });
+      return;
+    }
+
+    try {
+      const result = await faissService.indexWorkspace({ force });
+      respond(true, { success: true, ...result });
+    } catch (error) {
+      respond(false, { 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    }
+  });
+
+  // Embedding 模型遷移
+  api.registerGatewayMethod('memory-guardian.migrate', async ({ respond }) => {
+    const faissService = getFaissVectorizerService();
+    if (!faissService) {
+      respond(false, { error: 'FAISS service not initialized' });
+      return;
+    }
+
+    try {
+      const result = await faissService.migrateEmbeddings();
+      respond(true, { success: true, ...result });
+    } catch (error) {
+      respond(false, { 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    }
+  });
+
+  // 壓縮索引
+  api.registerGatewayMethod('memory-guardian.compact', async ({ respond }) => {
     const faissService = getFaissVectorizerService();
     if (!faissService) {
       respond(false, { error: 'FAISS service not initialized' });
@@ -258,7 +397,7 @@ export function register(api: PluginApi): void {
     }
 
     try {
-      const result = await faissService.indexWorkspace();
+      const result = await faissService.compact();
       respond(true, { success: true, ...result });
     } catch (error) {
       respond(false, { 
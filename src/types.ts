@@ -12,27 +12,189 @@ export interface MemoryGuardianConfig {
   summarizeIntervalMs: number;
   /** RAG 檢索返回的最相關文本數量 */
   ragTopK: number;
-  /** 文本切塊大小（字符） */
+  /** 構建 RAG 查詢時結合的前幾輪對話數量，0 表示只使用最後一條用戶消息 */
+  queryContextTurns: number;
+  /** 是否使用本地 LLM 將追問改寫為獨立的檢索問題 */
+  queryRewriteEnabled: boolean;
+  /** 查詢改寫的時間預算（毫秒），超出時回退到原始消息 */
+  queryRewriteTimeoutMs: number;
+  /** HyDE 檢索模式：off 不啟用；answer 用假設答案的向量檢索；average 用假設答案與查詢向量的平均 */
+  hydeMode: HydeMode;
+  /** 生成假設答案的超時（毫秒），超出時回退到查詢向量 */
+  hydeTimeoutMs: number;
+  /** 注入記憶的最低檢索相關度（混合檢索為歸一化融合分數，僅向量檢索為 1 - distance），低於此值的結果丟棄；不使用重排序分數 */
+  ragMinSimilarity: number;
+  /** 相對門檻（0-1）：綜合評分低於最高分乘以此值的結果丟棄，0 表示不啟用 */
+  ragRelativeCutoff: number;
+  /** 沒有結果達到門檻時是否不注入任何記憶；false 時保留最高分的一條 */
+  ragAllowEmpty: boolean;
+  /** 每個命中切塊向兩側各擴展的相鄰切塊數，0 表示不擴展 */
+  ragNeighborChunks: number;
+  /** 擴展後每段摘錄的 token 上限 */
+  ragNeighborMaxTokens: number;
+  /** 混合檢索中 BM25 詞法檢索的權重（0-1），其餘為向量檢索權重；0 表示僅向量檢索 */
+  lexicalWeight: number;
+  /** 記憶時效的半衰期（天），0 表示不做時間衰減 */
+  recencyHalfLifeDays: number;
+  /** 時效在綜合評分中的權重（0-1） */
+  recencyWeight: number;
+  /** 章節標題關鍵詞到重要度權重的映射，如日報的 Decisions 章節 */
+  importanceWeights: Record<string, number>;
+  /** MMR 多樣化中相關度的權重（0-1），越小越偏向多樣性；1 表示不做多樣化 */
+  mmrLambda: number;
+  /** 是否啟用 cross-encoder 重排序 */
+  rerankEnabled: boolean;
+  /** 重排序使用的本地 cross-encoder 模型 */
+  rerankModel: string;
+  /** 重排序前從索引取回的候選數量 */
+  rerankCandidates: number;
+  /** 重排序的時間預算（毫秒），超出時回退到檢索排序 */
+  rerankTimeoutMs: number;
+  /** 文本切塊大小（單位由 chunkUnit 決定） */
   chunkSize: number;
-  /** 切塊重疊長度 */
+  /** 切塊重疊長度（單位由 chunkUnit 決定） */
   chunkOverlap: number;
+  /**
+   * chunkSize / chunkOverlap 的單位
+   * - chars: 字符數
+   * - tokens: embedding 模型 tokenizer 的 token 數，避免切塊超出模型輸入長度被截斷
+   */
+  chunkUnit: 'chars' | 'tokens';
+  /** 各來源類型的切塊策略 */
+  chunkStrategy: ChunkStrategyConfig;
+  /** 語義切塊的切塊大小下限（單位由 chunkUnit 決定），小於此值時不在話題轉換處切分 */
+  semanticChunkMinSize: number;
+  /** 語義切塊中，相鄰句子的語義距離高於此百分位（0-100）時視為話題轉換 */
+  semanticBreakpointPercentile: number;
+  /** 各注入層的 token 預算：critical 為反遺忘上下文，rag 為歷史記憶 */
+  contextTokenBudget: ContextTokenBudget;
   /** 反遺忘注入時提取的最近消息數量 */
   recentMessagesCount: number;
-  /** Embedding 模型名稱 */
+  /** Embedding provider */
+  embeddingProvider: EmbeddingProviderName;
+  /** Embedding 模型名稱（transformers 為 HuggingFace 模型，ollama/openai 為服務端模型名） */
   embeddingModel: string;
+  /** 各 provider 的專屬設置 */
+  embeddingProviderOptions: EmbeddingProviderOptions;
+  /**
+   * 覆蓋模型內置的查詢/文檔前綴模板（如 e5 的 `query: ` / `passage: `）
+   * 模板含 `{text}` 時替換為原文，否則作為前綴拼接
+   */
+  embeddingPrefixes?: { query?: string; document?: string };
+  /**
+   * 配置的模型與索引記錄的模型不一致時的處理方式
+   * - auto: 服務啟動後自動用新模型重新向量化所有切塊
+   * - manual: 暫停檢索和索引，等待調用 memory-guardian.migrate
+   */
+  embeddingMigration: 'auto' | 'manual';
+  /** 批量向量化時每批送入模型的文本數量 */
+  embeddingBatchSize: number;
+  /** 本地 transformers 推理的 worker 線程數，0 表示在主線程運行 */
+  embeddingWorkers: number;
+  /** Embedding 緩存的最大條目數（內存 LRU 與磁盤共用） */
+  embeddingCacheSize: number;
+  /** 覆蓋模型的最大輸入 token 數，超出的切塊會在索引時告警 */
+  embeddingMaxTokens?: number;
   /** 本地 LLM API 端點 */
   localLlmEndpoint: string;
   /** 本地 LLM 模型名稱 */
   localLlmModel: string;
 }
 
+/**
+ * 切塊策略
+ * semantic 按句子（對話按輪次）向量化，在相鄰單元相似度驟降處切分
+ */
+export interface ChunkStrategyConfig {
+  /** Markdown 文件：structure 按標題和塊結構切分 */
+  markdown?: 'structure' | 'semantic';
+  /** 其他文本：window 為滑動窗口 */
+  text?: 'window' | 'semantic';
+  /** 會話 transcript：turns 按輪次合併 */
+  conversation?: 'turns' | 'semantic';
+}
+
+/**
+ * 注入層的 token 預算（按 estimateTokens 估算）
+ */
+export interface ContextTokenBudget {
+  /** 反遺忘 critical context：日報摘要、決策、待辦、最近消息和思考鏈 */
+  critical: number;
+  /** RAG 歷史記憶 */
+  rag: number;
+}
+
+export type EmbeddingProviderName = 'transformers' | 'ollama' | 'openai';
+
+export type HydeMode = 'off' | 'answer' | 'average';
+
+export interface EmbeddingProviderOptions {
+  /** 本地 @xenova/transformers 推理 */
+  transformers?: {
+    /** 每批文本數量，默認 embeddingBatchSize */
+    batchSize?: number;
+    /** 是否使用量化模型，默認 true */
+    quantized?: boolean;
+  };
+  /** Ollama /api/embed */
+  ollama?: {
+    /** 默認 http://localhost:11434/api/embed */
+    endpoint?: string;
+    /** 每次請求的文本數量，默認 embeddingBatchSize */
+    batchSize?: number;
+    /** 請求超時（毫秒），默認 30000 */
+    timeoutMs?: number;
+  };
+  /** OpenAI 兼容的 /v1/embeddings（如 llama.cpp server） */
+  openai?: {
+    /** 默認 http://localhost:8080/v1/embeddings */
+    endpoint?: string;
+    /** 可選的 Bearer token */
+    apiKey?: string;
+    /** 每次請求的文本數量，默認 embeddingBatchSize */
+    batchSize?: number;
+    /** 請求超時（毫秒），默認 30000 */
+    timeoutMs?: number;
+  };
+}
+
 export const DEFAULT_CONFIG: MemoryGuardianConfig = {
   summarizeIntervalMs: 3600000,  // 1 hour
   ragTopK: 5,
+  queryContextTurns: 2,
+  queryRewriteEnabled: false,
+  queryRewriteTimeoutMs: 800,
+  hydeMode: 'off',
+  hydeTimeoutMs: 5000,
+  ragMinSimilarity: 0.25,
+  ragRelativeCutoff: 0.5,
+  ragAllowEmpty: true,
+  ragNeighborChunks: 0,
+  ragNeighborMaxTokens: 400,
+  lexicalWeight: 0.5,
+  recencyHalfLifeDays: 30,
+  recencyWeight: 0.3,
+  importanceWeights: { 'Decisions': 1.5, 'Action Items': 1.2 },
+  mmrLambda: 0.7,
+  rerankEnabled: false,
+  rerankModel: 'Xenova/ms-marco-MiniLM-L-6-v2',
+  rerankCandidates: 50,
+  rerankTimeoutMs: 500,
   chunkSize: 512,
   chunkOverlap: 64,
+  chunkUnit: 'chars',
+  chunkStrategy: { markdown: 'structure', text: 'window', conversation: 'turns' },
+  semanticChunkMinSize: 128,
+  semanticBreakpointPercentile: 90,
+  contextTokenBudget: { critical: 1500, rag: 1000 },
   recentMessagesCount: 30,
+  embeddingProvider: 'transformers',
   embeddingModel: 'Xenova/all-MiniLM-L6-v2',
+  embeddingProviderOptions: {},
+  embeddingMigration: 'auto',
+  embeddingBatchSize: 32,
+  embeddingWorkers: 1,
+  embeddingCacheSize: 10000,
   localLlmEndpoint: 'http://localhost:11434/api/generate',
   localLlmModel: 'qwen2.5:7b',
 };
@@ -42,15 +204,25 @@ export const DEFAULT_CONFIG: MemoryGuardianConfig = {
 // ============================================================
 
 export interface TextChunk {
-  /** 切塊唯一 ID */
+  /** 切塊 ID，由來源路徑、區間和內容哈希派生 */
   id: string;
   /** 原始文本內容 */
   text: string;
   /** 來源文件路徑 */
   sourcePath: string;
-  /** 在源文件中的偏移位置 */
+  /** 在源文件中的起始字符偏移（含） */
   offset: number;
-  /** 時間戳 */
+  /**
+   * 在源文件中的結束字符偏移（不含）
+   * text 即源文件 [offset, endOffset) 的內容；對話切塊（metadata.type 為 conversation）的源文件
+   * 是格式化後的 `[User]: …` 對話文本，行號指向 JSONL 中的消息行，字符區間記錄在 metadata.sourceSpan
+   */
+  endOffset?: number;
+  /** 起始行號（從 1 開始）；舊版索引的切塊沒有行號 */
+  startLine?: number;
+  /** 結束行號（含） */
+  endLine?: number;
+  /** 來源時間（文件日期或消息時間，毫秒時間戳） */
   timestamp: number;
   /** Session Key */
   sessionKey?: string;
@@ -63,7 +235,7 @@ export interface VectorDocument {
   id: number;
   /** 文本切塊 */
   chunk: TextChunk;
-  /** 384 維向量 */
+  /** Embedding 向量 */
   embedding: Float32Array;
 }
 
@@ -72,10 +244,42 @@ export interface SearchResult {
   id: number;
   /** 距離分數（越小越相似） */
   distance: number;
+  /** 混合檢索的融合分數（越大越相關），僅向量檢索時不設置 */
+  score?: number;
+  /** Cross-encoder 相關度（0-1，越大越相關），僅經過重排序時設置 */
+  rerankScore?: number;
+  /** 綜合評分明細，經過記憶評分時設置 */
+  scoreBreakdown?: MemoryScore;
   /** 對應的文本切塊 */
   chunk: TextChunk;
 }
 
+export interface MemoryScore {
+  /** 相似度：重排序分數；否則混合檢索為歸一化融合分數，僅向量檢索為 1 - distance */
+  similarity: number;
+  /** 時效（0-1），按來源時間和半衰期衰減 */
+  recency: number;
+  /** 重要度權重，默認 1 */
+  importance: number;
+  /** 綜合評分（越大越相關） */
+  final: number;
+}
+
+export interface SearchFilter {
+  /** 限定 Session Key（多個時任一匹配即可） */
+  sessionKey?: string | string[];
+  /** 來源路徑 glob（支持 *、**、?），匹配完整路徑或其後綴 */
+  sourcePath?: string;
+  /** 時間窗口起點（毫秒時間戳，含） */
+  since?: number;
+  /** 時間窗口終點（毫秒時間戳，含） */
+  until?: number;
+  /** 切塊類型（metadata.type） */
+  type?: ChunkType | ChunkType[];
+}
+
+export type ChunkType = 'markdown' | 'conversation';
+
 // ============================================================
 // 日報結構
 // ============================================================
@@ -119,10 +323,12 @@ export interface RagInjection {
   query: string;
   /** 檢索結果 */
   results: SearchResult[];
-  /** 組裝後的歷史記憶 XML */
+  /** 組裝後的歷史記憶 XML（調用方跳過格式化時為空） */
   historicalMemoryXml: string;
   /** 檢索耗時（毫秒） */
   searchTimeMs: number;
+  /** HyDE 模式下用於檢索的假設答案 */
+  hypotheticalAnswer?: string;
 }
 
 // ============================================================
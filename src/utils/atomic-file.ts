@@ -0,0 +1,69 @@
+/**
+ * 原子文件寫入模組
+ * 先寫入臨時文件並 fsync，再 rename 覆蓋目標，避免崩潰時留下半寫入的文件
+ */
+
+import { openSync, writeSync, fsyncSync, closeSync, renameSync, existsSync, mkdirSync, unlinkSync } from 'fs';
+import { createHash } from 'crypto';
+import { dirname } from 'path';
+
+/**
+ * 寫入文件並強制刷盤
+ */
+export function writeFileSynced(path: string, data: string | Buffer): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const fd = openSync(path, 'w');
+  try {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
+    writeSync(fd, buffer, 0, buffer.length, 0);
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * 原子寫入文件
+ * 崩潰時目標文件要麼是舊內容，要麼是完整的新內容
+ */
+export function writeFileAtomic(path: string, data: string | Buffer): void {
+  const tmpPath = `${path}.tmp`;
+  try {
+    writeFileSynced(tmpPath, data);
+    renameSync(tmpPath, path);
+  } catch (error) {
+    if (existsSync(tmpPath)) {
+      unlinkSync(tmpPath);
+    }
+    throw error;
+  }
+  fsyncDir(dirname(path));
+}
+
+/**
+ * 刷新目錄項，確保 rename 落盤
+ * 部分平台（如 Windows）不支持對目錄 fsync，失敗時忽略
+ */
+export function fsyncDir(dir: string): void {
+  try {
+    const fd = openSync(dir, 'r');
+    try {
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+  } catch {
+    // 忽略不支持的平台
+  }
+}
+
+/**
+ * 計算 SHA-256 校驗和
+ */
+export function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
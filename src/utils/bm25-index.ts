@@ -0,0 +1,128 @@
+/**
+ * BM25 詞法索引
+ * 與 FAISS 向量索引使用相同的文檔 ID，彌補稠密檢索對精確標識符、錯誤碼和專有名詞的遺漏
+ */
+
+import { tokenizeForSearch } from './search-tokenizer.js';
+
+// BM25 參數
+const K1 = 1.2;
+const B = 0.75;
+
+export interface LexicalMatch {
+  /** 文檔 ID（與 FAISS index 對應） */
+  id: number;
+  /** BM25 分數（越大越相關） */
+  score: number;
+}
+
+/**
+ * 內存倒排索引
+ */
+export class Bm25Index {
+  /** 詞 → (文檔 ID → 詞頻) */
+  private postings: Map<string, Map<number, number>> = new Map();
+  /** 文檔 ID → 文檔包含的詞（刪除時用於清理倒排表） */
+  private documentTerms: Map<number, string[]> = new Map();
+  private lengths: Map<number, number> = new Map();
+  private totalLength: number = 0;
+
+  /**
+   * 添加文檔，ID 已存在時替換
+   */
+  add(id: number, text: string): void {
+    if (this.lengths.has(id)) {
+      this.remove(id);
+    }
+
+    const tokens = tokenizeForSearch(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+
+    for (const [term, count] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, count);
+    }
+
+    this.documentTerms.set(id, Array.from(frequencies.keys()));
+    this.lengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  /**
+   * 刪除文檔
+   */
+  remove(id: number): void {
+    const terms = this.documentTerms.get(id);
+    if (!terms) {
+      return;
+    }
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.lengths.get(id) || 0;
+    this.documentTerms.delete(id);
+    this.lengths.delete(id);
+  }
+
+  /**
+   * 清空索引
+   */
+  clear(): void {
+    this.postings.clear();
+    this.documentTerms.clear();
+    this.lengths.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * 按 BM25 分數檢索
+   * @param terms 查詢詞（已分詞）
+   * @param k 返回的結果數量
+   * @param accept 可選的文檔過濾函數
+   */
+  search(terms: string[], k: number, accept?: (id: number) => boolean): LexicalMatch[] {
+    const documentCount = this.lengths.size;
+    if (documentCount === 0 || terms.length === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<number, number>();
+    const rejected = new Set<number>();
+
+    for (const term of new Set(terms)) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        if (rejected.has(id)) continue;
+        if (accept && !scores.has(id) && !accept(id)) {
+          rejected.add(id);
+          continue;
+        }
+
+        const length = this.lengths.get(id) || 0;
+        const weight = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * length) / averageLength));
+        scores.set(id, (scores.get(id) || 0) + idf * weight);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
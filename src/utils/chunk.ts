@@ -3,94 +3,251 @@
  * 將長文本切分為適合 embedding 的小塊
  */
 
+import { isAbsolute, relative } from 'path';
 import type { TextChunk } from '../types.js';
-import { randomUUID } from 'crypto';
+import { sha256 } from './atomic-file.js';
+
+/**
+ * Token 計數器
+ * 由 embedding 模型的 tokenizer 提供，用於按 token 而非字符衡量切塊大小
+ */
+export interface TokenCounter {
+  /** 文本的 token 數（不含特殊 token） */
+  count(text: string): number;
+  /** 模型可處理的最大 token 數，超出部分會被截斷 */
+  maxLength?: number;
+}
 
 export interface ChunkOptions {
-  /** 每個切塊的目標大小（字符數） */
+  /** 每個切塊的目標大小（字符數；提供 tokenizer 時為 token 數） */
   chunkSize: number;
-  /** 切塊之間的重疊長度 */
+  /** 切塊之間的重疊長度（單位同 chunkSize） */
   chunkOverlap: number;
+  /** 提供時按 tokenizer 的 token 數衡量 chunkSize 和 chunkOverlap */
+  tokenizer?: TokenCounter;
   /** 來源文件路徑 */
   sourcePath: string;
   /** Session Key */
   sessionKey?: string;
   /** 額外元數據 */
   metadata?: Record<string, unknown>;
+  /** 來源時間（文件日期等），缺省時使用切塊時間 */
+  sourceTimestamp?: number;
 }
 
 const DEFAULT_CHUNK_SIZE = 512;
 const DEFAULT_CHUNK_OVERLAP = 64;
 
+/**
+ * 由來源路徑、區間和內容哈希派生切塊 ID
+ * 同一文件中位置和內容都未變的切塊在重新索引後保持同一 ID
+ */
+export function chunkId(sourcePath: string, offset: number, endOffset: number, text: string): string {
+  return sha256(`${sourcePath}\0${offset}:${endOffset}\0${sha256(text)}`).slice(0, 32);
+}
+
+/**
+ * 從 start 起，找出大小不超過 budget 的最遠結束位置
+ * 字符模式直接計算；token 模式先倍增探測上界，再二分查找
+ */
+function fitEnd(text: string, start: number, budget: number, tokenizer?: TokenCounter): number {
+  if (!tokenizer) {
+    return Math.min(start + budget, text.length);
+  }
+
+  const fits = (end: number) => tokenizer.count(text.slice(start, end)) <= budget;
+
+  // 倍增探測：token 通常不短於 1 個字符，從 budget 個字符起步
+  let lo = start + 1;
+  let hi = Math.min(start + Math.max(budget, 1), text.length);
+  while (hi < text.length && fits(hi)) {
+    lo = hi;
+    hi = Math.min(start + (hi - start) * 2, text.length);
+  }
+  if (fits(hi)) {
+    return hi;
+  }
+
+  // 二分查找最後一個滿足預算的位置（至少前進 1 個字符）
+  while (lo < hi - 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (fits(mid)) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+}
+
+/**
+ * 從 end 往回，找出大小不超過 budget 且不早於 min 的最遠起始位置
+ * 用於計算下一個窗口的重疊起點
+ */
+function fitStart(text: string, end: number, budget: number, min: number, tokenizer?: TokenCounter): number {
+  if (min >= end) {
+    return min;
+  }
+  if (!tokenizer) {
+    return Math.max(end - budget, min);
+  }
+  if (tokenizer.count(text.slice(min, end)) <= budget) {
+    return min;
+  }
+
+  // 二分查找第一個滿足預算的位置
+  let lo = min;
+  let hi = end;
+  while (lo < hi - 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (tokenizer.count(text.slice(mid, end)) <= budget) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+  return hi;
+}
+
+/**
+ * 行號索引：記錄每行的起始偏移，按字符偏移查詢行號（從 1 開始）
+ */
+class LineIndex {
+  private lineStarts: number[] = [0];
+
+  constructor(text: string) {
+    for (let i = 0; i < text.length; i++) {
+      if (text.charCodeAt(i) === 10) {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  lineAt(offset: number): number {
+    let lo = 0;
+    let hi = this.lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (this.lineStarts[mid] <= offset) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return lo + 1;
+  }
+}
+
+/**
+ * 去除區間首尾空白，返回收縮後的 [start, end)
+ */
+function trimSpan(text: string, start: number, end: number): { start: number; end: number } {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
 /**
  * 將文本切分為多個 chunk
  * 使用滑動窗口方式，保證上下文連續性
  */
 export function chunkText(text: string, options: Partial<ChunkOptions> = {}): TextChunk[] {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+  return chunkSpan(text, 0, text.length, new LineIndex(text), options);
+}
+
+/**
+ * 由源文本的 [start, end) 區間創建切塊（去除首尾空白），區間為空白時返回 null
+ */
+function createChunk(
+  text: string,
+  start: number,
+  end: number,
+  lines: LineIndex,
+  options: Pick<Partial<ChunkOptions>, 'sourcePath' | 'sessionKey' | 'metadata'>,
+  timestamp: number
+): TextChunk | null {
+  const span = trimSpan(text, start, end);
+  if (span.start >= span.end) {
+    return null;
+  }
+  const sourcePath = options.sourcePath || 'unknown';
+  const chunkText = text.slice(span.start, span.end);
+  return {
+    id: chunkId(sourcePath, span.start, span.end, chunkText),
+    text: chunkText,
+    sourcePath,
+    offset: span.start,
+    endOffset: span.end,
+    startLine: lines.lineAt(span.start),
+    endLine: lines.lineAt(span.end - 1),
+    timestamp,
+    sessionKey: options.sessionKey,
+    metadata: options.metadata,
+  };
+}
+
+/**
+ * 切分源文本中的 [spanStart, spanEnd) 區間
+ * 切塊的偏移和行號均相對於完整源文本，chunk.text 恰為 text.slice(offset, endOffset)
+ */
+function chunkSpan(
+  text: string,
+  spanStart: number,
+  spanEnd: number,
+  lines: LineIndex,
+  options: Partial<ChunkOptions>
+): TextChunk[] {
   const {
     chunkSize = DEFAULT_CHUNK_SIZE,
     chunkOverlap = DEFAULT_CHUNK_OVERLAP,
+    tokenizer,
     sourcePath = 'unknown',
     sessionKey,
     metadata,
   } = options;
 
-  if (!text || text.trim().length === 0) {
-    return [];
-  }
-
   const chunks: TextChunk[] = [];
-  const timestamp = Date.now();
-
-  // 如果文本長度小於 chunkSize，直接返回單個 chunk
-  if (text.length <= chunkSize) {
-    chunks.push({
-      id: randomUUID(),
-      text: text.trim(),
-      sourcePath,
-      offset: 0,
-      timestamp,
-      sessionKey,
-      metadata,
-    });
+  const timestamp = options.sourceTimestamp ?? Date.now();
+
+  const pushChunk = (start: number, end: number) => {
+    const chunk = createChunk(text, start, end, lines, { sourcePath, sessionKey, metadata }, timestamp);
+    if (chunk) {
+      chunks.push(chunk);
+    }
+  };
+
+  // 在源文本的區間上操作，窗口不越過 spanEnd
+  const source = text.slice(0, spanEnd);
+
+  // 如果區間大小小於 chunkSize，直接返回單個 chunk
+  const size = tokenizer ? tokenizer.count(source.slice(spanStart)) : spanEnd - spanStart;
+  if (size <= chunkSize) {
+    pushChunk(spanStart, spanEnd);
     return chunks;
   }
 
   // 滑動窗口切分
-  let offset = 0;
-  const step = chunkSize - chunkOverlap;
+  let offset = spanStart;
+  const overlap = Math.max(Math.min(chunkOverlap, chunkSize - 1), 0);
 
-  while (offset < text.length) {
-    let endPos = offset + chunkSize;
-    
-    // 確保不超出文本長度
-    if (endPos > text.length) {
-      endPos = text.length;
-    }
+  while (offset < spanEnd) {
+    // 窗口結束位置（不超出區間）
+    const endPos = fitEnd(source, offset, chunkSize, tokenizer);
 
     // 嘗試在自然邊界（句號、換行）處切分
-    const chunkText = text.slice(offset, endPos);
-    const adjustedChunk = adjustChunkBoundary(chunkText, text, offset, endPos);
-
-    if (adjustedChunk.text.trim().length > 0) {
-      chunks.push({
-        id: randomUUID(),
-        text: adjustedChunk.text.trim(),
-        sourcePath,
-        offset,
-        timestamp,
-        sessionKey,
-        metadata,
-      });
-    }
+    const adjusted = adjustChunkBoundary(source.slice(offset, endPos), source, offset, endPos);
+    pushChunk(offset, adjusted.adjustedEnd);
 
-    // 移動到下一個位置
-    offset += step;
-
-    // 如果已經到達文本末尾，退出循環
-    if (offset >= text.length) {
+    // 如果已經到達區間末尾，退出循環
+    if (adjusted.adjustedEnd >= spanEnd) {
       break;
     }
+
+    // 下一個窗口從實際結束位置往回重疊 chunkOverlap，並保證向前推進
+    offset = fitStart(source, adjusted.adjustedEnd, overlap, offset + 1, tokenizer);
   }
 
   return chunks;
@@ -140,97 +297,673 @@ function adjustChunkBoundary(
   return { text: chunk, adjustedEnd: endOffset };
 }
 
+/**
+ * 對話消息
+ */
+export interface ConversationMessage {
+  role: string;
+  content: string;
+  /** 消息時間（毫秒時間戳） */
+  timestamp?: number;
+  /** 消息在會話中的序號 */
+  index?: number;
+  /** 消息在源文件中的位置（如 JSONL 中的行），提供時切塊的行號指向源文件，字符區間記錄在 metadata.sourceSpan */
+  span?: { offset: number; endOffset: number; line: number };
+}
+
 /**
  * 將對話記錄切分為 chunks
- * 專門處理 OpenClaw 的對話格式
+ * 專門處理 OpenClaw 的對話格式：按消息邊界切分，用戶消息與其後的回覆作為一輪保持在同一切塊；
+ * 多輪合併直到達到 chunkSize，單輪過長時按消息拆分，單條消息過長時才按窗口切分
  */
 export function chunkConversation(
-  messages: Array<{ role: string; content: string; timestamp?: number }>,
+  messages: ConversationMessage[],
   options: Partial<ChunkOptions> = {}
 ): TextChunk[] {
-  const formattedMessages = messages.map((msg) => {
-    const roleLabel = msg.role === 'user' ? 'User' : 'Assistant';
-    return `[${roleLabel}]: ${msg.content}`;
-  });
+  const entries = messages.filter(msg => msg.content.trim().length > 0);
+  if (entries.length === 0) {
+    return [];
+  }
+  return createConversationChunker(entries, options)(0, entries.length - 1);
+}
 
-  // 將對話組合成文本，每條消息用換行分隔
+/**
+ * 創建對話切塊器，按消息範圍切塊
+ * 切塊偏移指向所有消息格式化拼接後的文本，分段切塊時各段的偏移仍不重疊且有序
+ */
+function createConversationChunker(
+  entries: ConversationMessage[],
+  options: Partial<ChunkOptions>
+): (first: number, last: number) => TextChunk[] {
+  const {
+    chunkSize = DEFAULT_CHUNK_SIZE,
+    tokenizer,
+    sourcePath = 'unknown',
+    sessionKey,
+    metadata,
+  } = options;
+
+  // 將對話組合成文本，每條消息用空行分隔，並記錄每條消息的位置
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let position = 0;
+  const formattedMessages = entries.map((msg, i) => {
+    const formatted = formatMessage(msg);
+    position += i > 0 ? 2 : 0;
+    starts.push(position);
+    position += formatted.length;
+    ends.push(position);
+    return formatted;
+  });
   const conversationText = formattedMessages.join('\n\n');
+  const lines = new LineIndex(conversationText);
 
-  return chunkText(conversationText, {
-    ...options,
-    metadata: {
-      ...options.metadata,
+  const measure = (first: number, last: number) => {
+    const text = conversationText.slice(starts[first], ends[last]);
+    return tokenizer ? tokenizer.count(text) : text.length;
+  };
+
+  const chunkMetadata = (first: number, last: number) => {
+    const range = entries.slice(first, last + 1);
+    const times = range.map(msg => msg.timestamp).filter((t): t is number => t !== undefined);
+    return {
+      ...metadata,
       type: 'conversation',
-      messageCount: messages.length,
-    },
+      roles: range.map(msg => msg.role),
+      messageStart: entries[first].index ?? first,
+      messageEnd: entries[last].index ?? last,
+      messageCount: range.length,
+      ...(times.length > 0 ? { startTime: Math.min(...times), endTime: Math.max(...times) } : {}),
+    };
+  };
+
+  // 消息帶有源文件位置時，行號改為指向源文件，源文件中的字符區間記錄在 metadata.sourceSpan
+  const withSourceSpan = (chunk: TextChunk, first: number, last: number): TextChunk => {
+    const from = entries[first].span;
+    const to = entries[last].span;
+    if (!from || !to) {
+      return chunk;
+    }
+    return {
+      ...chunk,
+      startLine: from.line,
+      endLine: to.line,
+      metadata: {
+        ...chunk.metadata,
+        sourceSpan: { offset: from.offset, endOffset: to.endOffset },
+      },
+    };
+  };
+
+  // 切塊時間取首條消息的時間
+  const fallbackTimestamp = options.sourceTimestamp ?? Date.now();
+  const timestampOf = (first: number) => entries[first].timestamp ?? fallbackTimestamp;
+
+  return (rangeFirst, rangeLast) => {
+    const chunks: TextChunk[] = [];
+
+    const emit = (first: number, last: number) => {
+      const text = conversationText.slice(starts[first], ends[last]);
+      chunks.push(withSourceSpan({
+        id: chunkId(sourcePath, starts[first], ends[last], text),
+        text,
+        sourcePath,
+        offset: starts[first],
+        endOffset: ends[last],
+        startLine: lines.lineAt(starts[first]),
+        endLine: lines.lineAt(ends[last] - 1),
+        timestamp: timestampOf(first),
+        sessionKey,
+        metadata: chunkMetadata(first, last),
+      }, first, last));
+    };
+
+    // 貪心合併相鄰單元；超出 chunkSize 的單元拆分為更小的單元
+    const pack = (units: Array<{ first: number; last: number }>) => {
+      let group: { first: number; last: number } | null = null;
+
+      for (const unit of units) {
+        if (group && measure(group.first, unit.last) <= chunkSize) {
+          group.last = unit.last;
+          continue;
+        }
+        if (group) {
+          emit(group.first, group.last);
+          group = null;
+        }
+
+        if (measure(unit.first, unit.last) <= chunkSize) {
+          group = { ...unit };
+        } else if (unit.first < unit.last) {
+          // 單輪過長：按消息拆分
+          pack(entries.slice(unit.first, unit.last + 1).map((_, i) => ({ first: unit.first + i, last: unit.first + i })));
+        } else {
+          // 單條消息過長：按窗口切分，每段的偏移指向消息內各自的區間
+          const pieces = chunkSpan(conversationText, starts[unit.first], ends[unit.first], lines, {
+            ...options,
+            sourceTimestamp: timestampOf(unit.first),
+            metadata: chunkMetadata(unit.first, unit.first),
+          });
+          chunks.push(...pieces.map(piece => withSourceSpan(piece, unit.first, unit.first)));
+        }
+      }
+
+      if (group) {
+        emit(group.first, group.last);
+      }
+    };
+
+    pack(groupTurns(entries.slice(rangeFirst, rangeLast + 1))
+      .map(turn => ({ first: turn.first + rangeFirst, last: turn.last + rangeFirst })));
+    return chunks;
+  };
+}
+
+function formatMessage(msg: ConversationMessage): string {
+  const roleLabel = msg.role === 'user' ? 'User' : 'Assistant';
+  return `[${roleLabel}]: ${msg.content.trim()}`;
+}
+
+/**
+ * 按輪次分組：每輪從用戶消息開始，包含其後的所有回覆
+ */
+function groupTurns(messages: ConversationMessage[]): Array<{ first: number; last: number }> {
+  const turns: Array<{ first: number; last: number }> = [];
+  messages.forEach((msg, i) => {
+    if (msg.role === 'user' || turns.length === 0) {
+      turns.push({ first: i, last: i });
+    } else {
+      turns[turns.length - 1].last = i;
+    }
   });
+  return turns;
+}
+
+// Markdown 塊級結構
+const MD_FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const MD_HEADING = /^\s{0,3}(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/;
+const MD_LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+/;
+const MD_TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+interface MarkdownBlock {
+  kind: 'heading' | 'fence' | 'table' | 'list' | 'paragraph';
+  start: number;
+  end: number;
+  /** 標題級別（僅 heading） */
+  level?: number;
+  /** 標題文本（僅 heading） */
+  title?: string;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * 將 Markdown 解析為塊：標題、代碼圍欄、表格、列表項（含嵌套子項和續行）和段落
+ */
+function parseMarkdownBlocks(content: string): MarkdownBlock[] {
+  const lines: Array<{ start: number; end: number; text: string }> = [];
+  let lineStart = 0;
+  while (lineStart <= content.length) {
+    const newline = content.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? content.length : newline;
+    lines.push({ start: lineStart, end: lineEnd, text: content.slice(lineStart, lineEnd) });
+    if (newline === -1) break;
+    lineStart = newline + 1;
+  }
+
+  const isBlank = (i: number) => lines[i].text.trim() === '';
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(i)) {
+      i++;
+      continue;
+    }
+
+    // 代碼圍欄：直到同類且不短於開頭的結束標記，未閉合時延續到文末
+    const fence = line.text.match(MD_FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const closing = new RegExp(`^\\s{0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+      let j = i + 1;
+      while (j < lines.length && !closing.test(lines[j].text)) j++;
+      const last = Math.min(j, lines.length - 1);
+      blocks.push({ kind: 'fence', start: line.start, end: lines[last].end });
+      i = last + 1;
+      continue;
+    }
+
+    const heading = line.text.match(MD_HEADING);
+    if (heading) {
+      blocks.push({ kind: 'heading', start: line.start, end: line.end, level: heading[1].length, title: heading[2] });
+      i++;
+      continue;
+    }
+
+    // 表格：表頭行 + 分隔行 + 連續的數據行
+    if (line.text.includes('|') && i + 1 < lines.length && lines[i + 1].text.includes('-') && MD_TABLE_SEPARATOR.test(lines[i + 1].text)) {
+      let j = i + 2;
+      while (j < lines.length && !isBlank(j) && lines[j].text.includes('|')) j++;
+      blocks.push({ kind: 'table', start: line.start, end: lines[j - 1].end });
+      i = j;
+      continue;
+    }
+
+    // 列表項：包含縮進更深的續行和子列表，空行後需縮進才屬於同一項
+    const item = line.text.match(MD_LIST_ITEM);
+    if (item) {
+      const indent = item[1].length;
+      let j = i + 1;
+      while (j < lines.length) {
+        if (isBlank(j)) {
+          let k = j;
+          while (k < lines.length && isBlank(k)) k++;
+          if (k < lines.length && indentOf(lines[k].text) > indent) {
+            j = k;
+            continue;
+          }
+          break;
+        }
+        const text = lines[j].text;
+        const nextItem = text.match(MD_LIST_ITEM);
+        if (nextItem && nextItem[1].length <= indent) break;
+        if (!nextItem && indentOf(text) <= indent && (MD_FENCE.test(text) || MD_HEADING.test(text))) break;
+        j++;
+      }
+      blocks.push({ kind: 'list', start: line.start, end: lines[j - 1].end });
+      i = j;
+      continue;
+    }
+
+    // 段落：直到空行或其他塊的開頭
+    let j = i + 1;
+    while (
+      j < lines.length &&
+      !isBlank(j) &&
+      !MD_FENCE.test(lines[j].text) &&
+      !MD_HEADING.test(lines[j].text) &&
+      !MD_LIST_ITEM.test(lines[j].text)
+    ) j++;
+    blocks.push({ kind: 'paragraph', start: line.start, end: lines[j - 1].end });
+    i = j;
+  }
+
+  return blocks;
 }
 
 /**
  * 從 Markdown 文件內容中提取並切分
+ * 按標題分節，節內按塊合併到 chunkSize：代碼圍欄和表格不會被切開（過長時單獨成塊），
+ * 列表項盡量保持完整，過長的段落或列表項才按窗口切分。
+ * 每個切塊記錄完整的標題路徑（如 `# Project > ## API > ### Auth`），並在向量化時前置於文本
  */
 export function chunkMarkdown(content: string, options: Partial<ChunkOptions> = {}): TextChunk[] {
-  // 預處理：移除過多的空行
-  const cleaned = content.replace(/\n{3,}/g, '\n\n');
-  
-  // 嘗試按標題分割
-  const sections = splitByHeaders(cleaned);
-  
+  const { chunkSize = DEFAULT_CHUNK_SIZE, chunkOverlap = DEFAULT_CHUNK_OVERLAP, tokenizer } = options;
+  const lines = new LineIndex(content);
+  const timestamp = options.sourceTimestamp ?? Date.now();
+  const measure = (text: string) => (tokenizer ? tokenizer.count(text) : text.length);
+
   const allChunks: TextChunk[] = [];
-  
-  for (const section of sections) {
-    if (section.content.trim().length === 0) continue;
-    
-    const chunks = chunkText(section.content, {
-      ...options,
-      metadata: {
-        ...options.metadata,
-        sectionHeader: section.header,
-        type: 'markdown',
-      },
-    });
-    
-    allChunks.push(...chunks);
+  const headings: Array<{ level: number; title: string }> = [];
+  let sectionMetadata: Record<string, unknown> = { ...options.metadata, sectionHeader: '', type: 'markdown' };
+  let budget = chunkSize;
+  // 待輸出的連續塊區間；headingOnly 表示目前只有標題行
+  let group: { start: number; end: number; headingOnly: boolean } | null = null;
+
+  const flush = () => {
+    if (group) {
+      const chunk = createChunk(content, group.start, group.end, lines, { ...options, metadata: sectionMetadata }, timestamp);
+      if (chunk) {
+        allChunks.push(chunk);
+      }
+      group = null;
+    }
+  };
+
+  for (const block of parseMarkdownBlocks(content)) {
+    if (block.kind === 'heading') {
+      flush();
+
+      // 更新標題路徑
+      while (headings.length > 0 && headings[headings.length - 1].level >= block.level!) {
+        headings.pop();
+      }
+      headings.push({ level: block.level!, title: block.title! });
+      const headingPath = headings.map(h => `${'#'.repeat(h.level)} ${h.title}`).join(' > ');
+
+      sectionMetadata = { ...options.metadata, sectionHeader: block.title, headingPath, type: 'markdown' };
+      // 向量化時前置標題路徑，為其預留空間
+      budget = Math.max(chunkSize - measure(`${headingPath}\n\n`), Math.floor(chunkSize / 2));
+
+      group = { start: block.start, end: block.end, headingOnly: true };
+      continue;
+    }
+
+    if (group && measure(content.slice(group.start, block.end)) <= budget) {
+      group.end = block.end;
+      group.headingOnly = false;
+      continue;
+    }
+
+    // 標題行不單獨成塊，與其後的第一個塊合併
+    let start = block.start;
+    if (group?.headingOnly) {
+      start = group.start;
+      group = null;
+    } else {
+      flush();
+    }
+
+    const atomic = block.kind === 'fence' || block.kind === 'table';
+    if (atomic || measure(content.slice(block.start, block.end)) <= budget) {
+      group = { start, end: block.end, headingOnly: false };
+    } else {
+      // 重疊按縮小後的預算等比例縮小，避免窗口推進過慢
+      allChunks.push(...chunkSpan(content, start, block.end, lines, {
+        ...options,
+        chunkSize: budget,
+        chunkOverlap: Math.floor(chunkOverlap * budget / chunkSize),
+        metadata: sectionMetadata,
+      }));
+    }
   }
+  flush();
 
   return allChunks;
 }
 
+// ============================================================
+// 語義切塊
+// ============================================================
+
 /**
- * 按 Markdown 標題分割文本
+ * 語義切塊參數
+ * chunkSize 為切塊大小上限，minSize 為話題轉換處切分的最小大小
  */
-function splitByHeaders(content: string): Array<{ header: string; content: string }> {
-  const headerPattern = /^(#{1,6})\s+(.+)$/gm;
-  const matches = [...content.matchAll(headerPattern)];
-  
-  if (matches.length === 0) {
-    return [{ header: '', content }];
+export interface SemanticChunkOptions extends ChunkOptions {
+  /** 向量化一批文本（通常為 embedTexts） */
+  embed: (texts: string[]) => Promise<Float32Array[]>;
+  /** 切塊大小下限（單位同 chunkSize），小於此值時不在話題轉換處切分 */
+  minSize?: number;
+  /** 相鄰單元的語義距離高於此百分位時視為話題轉換 */
+  breakpointPercentile?: number;
+}
+
+const DEFAULT_SEMANTIC_MIN_SIZE = 128;
+const DEFAULT_BREAKPOINT_PERCENTILE = 90;
+// 向量化句子時前後各帶上的鄰近句子數，平滑單句的噪聲
+const SENTENCE_CONTEXT_WINDOW = 1;
+
+/**
+ * 按句子切分 [start, end) 區間，返回去除首尾空白後的句子區間
+ * 句末標點（中文句號等，或後接空白的英文句號等）和換行均視為句子邊界
+ */
+function splitSentences(text: string, start: number, end: number): Array<{ start: number; end: number }> {
+  const sentences: Array<{ start: number; end: number }> = [];
+  let sentenceStart = start;
+
+  const push = (to: number) => {
+    const span = trimSpan(text, sentenceStart, to);
+    if (span.start < span.end) {
+      sentences.push(span);
+    }
+    sentenceStart = to;
+  };
+
+  for (let i = start; i < end; i++) {
+    const char = text[i];
+    if (char === '\n' || '。！？'.includes(char)) {
+      push(i + 1);
+    } else if ('.!?'.includes(char) && (i + 1 >= end || /\s/.test(text[i + 1]))) {
+      push(i + 1);
+    }
   }
+  push(end);
 
-  const sections: Array<{ header: string; content: string }> = [];
-  
-  // 添加第一個標題之前的內容
-  if (matches[0].index! > 0) {
-    sections.push({
-      header: '',
-      content: content.slice(0, matches[0].index!),
-    });
-  }
-
-  // 按標題分割
-  for (let i = 0; i < matches.length; i++) {
-    const currentMatch = matches[i];
-    const nextMatch = matches[i + 1];
-    const startPos = currentMatch.index!;
-    const endPos = nextMatch ? nextMatch.index! : content.length;
-    
-    sections.push({
-      header: currentMatch[2],
-      content: content.slice(startPos, endPos),
-    });
-  }
-
-  return sections;
+  return sentences;
+}
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * 按相鄰單元的語義距離將單元分組
+ * 在距離高於指定百分位（話題轉換）且當前組不小於 minSize 處切分，組大小不超過 chunkSize；
+ * 單個超出 chunkSize 的單元自成一組，由調用方繼續切分
+ * @param measure 計算單元 [first, last] 合併後的大小
+ * @param contextWindow 向量化時前後各帶上的鄰近單元數
+ */
+async function groupBySimilarity(
+  units: string[],
+  measure: (first: number, last: number) => number,
+  options: SemanticChunkOptions,
+  contextWindow: number
+): Promise<Array<{ first: number; last: number }>> {
+  if (units.length <= 1) {
+    return units.length === 1 ? [{ first: 0, last: 0 }] : [];
+  }
+
+  const {
+    chunkSize,
+    minSize = DEFAULT_SEMANTIC_MIN_SIZE,
+    breakpointPercentile = DEFAULT_BREAKPOINT_PERCENTILE,
+  } = options;
+
+  // 向量化每個單元及其鄰近上下文
+  const windows = units.map((_, i) =>
+    units.slice(Math.max(0, i - contextWindow), i + contextWindow + 1).join(' ')
+  );
+  const embeddings = await options.embed(windows);
+
+  const distances = units.slice(1).map((_, i) => 1 - cosine(embeddings[i], embeddings[i + 1]));
+  const sorted = [...distances].sort((a, b) => a - b);
+  const threshold = sorted[Math.floor((breakpointPercentile / 100) * (sorted.length - 1))];
+  const mean = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+
+  // 話題轉換點：距離達到百分位閾值、高於平均值，且為局部峰值（上下文窗口會把一次轉換攤到相鄰位置）
+  const isBreakpoint = (i: number) =>
+    distances[i] >= threshold &&
+    distances[i] > mean &&
+    (i === 0 || distances[i] >= distances[i - 1]) &&
+    (i === distances.length - 1 || distances[i] >= distances[i + 1]);
+
+  const groups: Array<{ first: number; last: number }> = [];
+  let first = 0;
+  for (let i = 0; i < units.length - 1; i++) {
+    const topicShift = isBreakpoint(i) && measure(first, i) >= minSize;
+    if (topicShift || measure(first, i + 1) > chunkSize) {
+      groups.push({ first, last: i });
+      first = i + 1;
+    }
+  }
+  groups.push({ first, last: units.length - 1 });
+
+  return groups;
+}
+
+/**
+ * 將句子等單元按語義分組並生成切塊，過長的單元按窗口切分
+ */
+async function chunkSpanSemantic(
+  text: string,
+  units: Array<{ start: number; end: number }>,
+  lines: LineIndex,
+  options: SemanticChunkOptions
+): Promise<TextChunk[]> {
+  const { tokenizer } = options;
+  const timestamp = options.sourceTimestamp ?? Date.now();
+  const measure = (first: number, last: number) => {
+    const slice = text.slice(units[first].start, units[last].end);
+    return tokenizer ? tokenizer.count(slice) : slice.length;
+  };
+
+  const groups = await groupBySimilarity(
+    units.map(u => text.slice(u.start, u.end)),
+    measure,
+    options,
+    SENTENCE_CONTEXT_WINDOW
+  );
+
+  const chunks: TextChunk[] = [];
+  for (const { first, last } of groups) {
+    const start = units[first].start;
+    const end = units[last].end;
+    if (measure(first, last) > options.chunkSize) {
+      // 單個過長的單元：按窗口切分
+      chunks.push(...chunkSpan(text, start, end, lines, options));
+    } else {
+      const chunk = createChunk(text, start, end, lines, options, timestamp);
+      if (chunk) {
+        chunks.push(chunk);
+      }
+    }
+  }
+  return chunks;
+}
+
+/**
+ * 語義切塊：按句子向量化，在相鄰句子相似度驟降處（話題轉換）切分
+ */
+export async function chunkTextSemantic(text: string, options: SemanticChunkOptions): Promise<TextChunk[]> {
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+  return chunkSpanSemantic(text, splitSentences(text, 0, text.length), new LineIndex(text), options);
+}
+
+/**
+ * Markdown 語義切塊
+ * 標題仍作為硬邊界並記錄標題路徑；節內代碼圍欄和表格作為整體單元，其餘塊按句子切分
+ */
+export async function chunkMarkdownSemantic(content: string, options: SemanticChunkOptions): Promise<TextChunk[]> {
+  const lines = new LineIndex(content);
+  const measure = (text: string) => (options.tokenizer ? options.tokenizer.count(text) : text.length);
+
+  const allChunks: TextChunk[] = [];
+  const headings: Array<{ level: number; title: string }> = [];
+  let sectionOptions: SemanticChunkOptions = {
+    ...options,
+    metadata: { ...options.metadata, sectionHeader: '', type: 'markdown' },
+  };
+  let units: Array<{ start: number; end: number }> = [];
+  // 節內目前只有標題行
+  let headingOnly = false;
+
+  const flushSection = async () => {
+    if (units.length > 0) {
+      allChunks.push(...await chunkSpanSemantic(content, units, lines, sectionOptions));
+      units = [];
+    }
+  };
+
+  for (const block of parseMarkdownBlocks(content)) {
+    if (block.kind === 'heading') {
+      await flushSection();
+
+      while (headings.length > 0 && headings[headings.length - 1].level >= block.level!) {
+        headings.pop();
+      }
+      headings.push({ level: block.level!, title: block.title! });
+      const headingPath = headings.map(h => `${'#'.repeat(h.level)} ${h.title}`).join(' > ');
+
+      // 向量化時前置標題路徑，為其預留空間
+      sectionOptions = {
+        ...options,
+        chunkSize: Math.max(options.chunkSize - measure(`${headingPath}\n\n`), Math.floor(options.chunkSize / 2)),
+        metadata: { ...options.metadata, sectionHeader: block.title, headingPath, type: 'markdown' },
+      };
+      // 標題行併入節內第一個單元
+      units.push({ start: block.start, end: block.end });
+      headingOnly = true;
+      continue;
+    }
+
+    const blockUnits = block.kind === 'fence' || block.kind === 'table'
+      ? [{ start: block.start, end: block.end }]
+      : splitSentences(content, block.start, block.end);
+
+    if (headingOnly && blockUnits.length > 0) {
+      units[0] = { start: units[0].start, end: blockUnits[0].end };
+      units.push(...blockUnits.slice(1));
+      headingOnly = false;
+    } else {
+      units.push(...blockUnits);
+    }
+  }
+  await flushSection();
+
+  return allChunks;
+}
+
+/**
+ * 對話語義切塊：單元為輪次（用戶消息及其回覆），在話題轉換處切分
+ */
+export async function chunkConversationSemantic(
+  messages: ConversationMessage[],
+  options: SemanticChunkOptions
+): Promise<TextChunk[]> {
+  const entries = messages.filter(msg => msg.content.trim().length > 0);
+  const turns = groupTurns(entries);
+  const turnTexts = turns.map(turn => entries.slice(turn.first, turn.last + 1).map(formatMessage).join('\n\n'));
+
+  const measure = (first: number, last: number) => {
+    const text = turnTexts.slice(first, last + 1).join('\n\n');
+    return options.tokenizer ? options.tokenizer.count(text) : text.length;
+  };
+
+  // 每組輪次單獨切塊；過長的單輪按消息或窗口拆分
+  const chunker = createConversationChunker(entries, options);
+  const chunks: TextChunk[] = [];
+  // 輪次本身已有足夠上下文，不再合併鄰近輪次向量化
+  for (const group of await groupBySimilarity(turnTexts, measure, options, 0)) {
+    chunks.push(...chunker(turns[group.first].first, turns[group.last].last));
+  }
+  return chunks;
+}
+
+/**
+ * 獲取切塊用於向量化的文本
+ * Markdown 切塊前置標題路徑，提高只在標題中出現的關鍵詞的召回
+ */
+export function getEmbeddingText(chunk: TextChunk): string {
+  const headingPath = chunk.metadata?.headingPath;
+  return typeof headingPath === 'string' && headingPath ? `${headingPath}\n\n${chunk.text}` : chunk.text;
+}
+
+/**
+ * 格式化切塊的來源位置，如 `memory/2026-10-01.md:L120-L148`
+ * 舊索引中沒有行號的切塊只返回路徑
+ * @param baseDir 提供時輸出相對此目錄（如 workspace）的路徑；不在其下的來源保留原路徑
+ */
+export function formatChunkLocation(chunk: TextChunk, baseDir?: string): string {
+  let sourcePath = chunk.sourcePath;
+  if (baseDir) {
+    const relativePath = relative(baseDir, sourcePath);
+    if (relativePath && !relativePath.startsWith('..') && !isAbsolute(relativePath)) {
+      sourcePath = relativePath;
+    }
+  }
+
+  if (!chunk.startLine) {
+    return sourcePath;
+  }
+  const endLine = chunk.endLine ?? chunk.startLine;
+  return endLine === chunk.startLine
+    ? `${sourcePath}:L${chunk.startLine}`
+    : `${sourcePath}:L${chunk.startLine}-L${endLine}`;
 }
 
 /**
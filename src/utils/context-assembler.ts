@@ -0,0 +1,185 @@
+/**
+ * 上下文組裝模組
+ * 為每個注入層（critical context、RAG 歷史記憶）按 token 預算選擇內容：
+ * 按優先級依次納入，放不下時截斷到剩餘預算，剩餘預算過少時丟棄
+ */
+
+import { estimateTokens } from './chunk.js';
+
+/**
+ * 注入層
+ */
+export type ContextLayer = 'critical' | 'rag';
+
+/**
+ * 內容優先級，數值越小越優先納入
+ */
+export const ContextPriority = {
+  /** 日報摘要等必須保留的內容 */
+  Pinned: 0,
+  /** 決策點 */
+  Decision: 1,
+  /** 待辦事項 */
+  ActionItem: 2,
+  /** 最近消息 */
+  RecentMessage: 3,
+  /** 思考鏈 */
+  Thought: 4,
+  /** RAG 檢索結果 */
+  RagHit: 5,
+} as const;
+
+// 剩餘預算少於此值時不再截斷，直接丟棄
+const MIN_TRUNCATED_TOKENS = 16;
+
+const ELLIPSIS = '…';
+
+export interface ContextItem {
+  /** 所屬區塊，由調用方用於分組輸出 */
+  section: string;
+  /** 調用方用於關聯原始數據的標識 */
+  id?: number;
+  /** 內容 */
+  text: string;
+  /** 優先級，見 ContextPriority */
+  priority: number;
+  /** 同一優先級內的納入次序（越小越先），默認按輸入順序 */
+  rank?: number;
+  /** 是否允許截斷，默認允許 */
+  truncatable?: boolean;
+  /** 渲染時包裝標籤等額外的 token 數 */
+  overhead?: number;
+}
+
+export interface ContextUsage {
+  layer: ContextLayer;
+  /** token 預算 */
+  budget: number;
+  /** 已使用的 token 數（估算） */
+  usedTokens: number;
+  /** 納入的條目數 */
+  included: number;
+  /** 被截斷的條目數 */
+  truncated: number;
+  /** 被丟棄的條目數 */
+  dropped: number;
+  /** 組裝時間 */
+  assembledAt: number;
+}
+
+export interface AssembledContext {
+  /** 納入的條目（可能已截斷），保持輸入順序 */
+  items: ContextItem[];
+  usage: ContextUsage;
+}
+
+// 各層最近一次組裝的用量，供狀態查詢
+const lastUsage = new Map<ContextLayer, ContextUsage>();
+
+/**
+ * 將文本截斷到不超過 maxTokens，盡量在空白或標點處斷開
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  count: (text: string) => number = estimateTokens
+): string {
+  if (count(text) <= maxTokens) {
+    return text;
+  }
+
+  // 二分查找能放入預算的最長前綴（含省略號）
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (count(text.slice(0, mid) + ELLIPSIS) <= maxTokens) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  // 在前綴的後 20% 內尋找自然斷點
+  let end = low;
+  const boundary = text.slice(0, low).search(/[\s，。！？；,.!?;][^\s，。！？；,.!?;]*$/);
+  if (boundary >= Math.floor(low * 0.8)) {
+    end = boundary + 1;
+  }
+
+  const truncated = text.slice(0, end).trimEnd();
+  return truncated ? truncated + ELLIPSIS : '';
+}
+
+/**
+ * 在 token 預算內組裝上下文
+ * @param layer 注入層，用於記錄用量
+ * @param items 候選條目
+ * @param budget token 預算；外層區塊標籤等固定開銷由調用方從預算中扣除
+ */
+export function assembleContext(layer: ContextLayer, items: ContextItem[], budget: number): AssembledContext {
+  const order = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) =>
+      a.item.priority - b.item.priority ||
+      (a.item.rank ?? a.index) - (b.item.rank ?? b.index)
+    );
+
+  const kept = new Map<number, ContextItem>();
+  let remaining = Math.max(0, budget);
+  let usedTokens = 0;
+  let truncated = 0;
+
+  for (const { item, index } of order) {
+    const overhead = item.overhead || 0;
+    const tokens = estimateTokens(item.text) + overhead;
+    if (tokens <= remaining) {
+      kept.set(index, item);
+      remaining -= tokens;
+      usedTokens += tokens;
+      continue;
+    }
+
+    if (item.truncatable === false || remaining - overhead < MIN_TRUNCATED_TOKENS) {
+      continue;
+    }
+
+    const text = truncateToTokens(item.text, remaining - overhead);
+    if (!text) {
+      continue;
+    }
+    const truncatedTokens = estimateTokens(text) + overhead;
+    kept.set(index, { ...item, text });
+    remaining -= truncatedTokens;
+    usedTokens += truncatedTokens;
+    truncated++;
+  }
+
+  const usage: ContextUsage = {
+    layer,
+    budget,
+    usedTokens,
+    included: kept.size,
+    truncated,
+    dropped: items.length - kept.size,
+    assembledAt: Date.now(),
+  };
+  lastUsage.set(layer, usage);
+
+  console.log(
+    `[ContextAssembler] ${layer}: ${usedTokens}/${budget} tokens，` +
+    `納入 ${usage.included} 條，截斷 ${truncated} 條，丟棄 ${usage.dropped} 條`
+  );
+
+  return {
+    items: Array.from(kept.entries()).sort((a, b) => a[0] - b[0]).map(([, item]) => item),
+    usage,
+  };
+}
+
+/**
+ * 獲取各注入層最近一次組裝的 token 用量
+ */
+export function getContextUsage(): Partial<Record<ContextLayer, ContextUsage>> {
+  return Object.fromEntries(lastUsage) as Partial<Record<ContextLayer, ContextUsage>>;
+}
@@ -0,0 +1,184 @@
+/**
+ * Embedding 緩存模組
+ * 以 (模型, 正規化文本哈希) 為鍵緩存向量：內存中為 LRU，並持久化到磁盤
+ * 相同文本在重建索引或重複查詢時無需再次運行模型
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { writeFileAtomic, sha256 } from './atomic-file.js';
+
+// 磁盤文件格式：MAGIC | version(u32) | count(u32) | [key(64 字節 hex) | dim(u32) | float32 * dim] * count
+const MAGIC = 'MGEC';
+const FORMAT_VERSION = 1;
+const KEY_BYTES = 64;
+
+export interface EmbeddingCacheStats {
+  /** 命中次數 */
+  hits: number;
+  /** 未命中次數 */
+  misses: number;
+  /** 當前緩存條目數 */
+  size: number;
+  /** 最大緩存條目數 */
+  maxEntries: number;
+}
+
+/**
+ * 正規化文本，使僅空白差異的文本共享緩存
+ */
+export function normalizeCacheText(text: string): string {
+  return text.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Embedding LRU 緩存類
+ */
+export class EmbeddingCache {
+  private entries: Map<string, Float32Array> = new Map();
+  private cachePath: string | null;
+  private maxEntries: number;
+  private hits: number = 0;
+  private misses: number = 0;
+  private isDirty: boolean = false;
+
+  constructor(options: { path?: string; maxEntries?: number } = {}) {
+    this.cachePath = options.path || null;
+    this.maxEntries = Math.max(1, options.maxEntries || 10000);
+  }
+
+  /**
+   * 計算緩存鍵
+   */
+  static key(model: string, text: string): string {
+    return sha256(`${model}\u0000${normalizeCacheText(text)}`);
+  }
+
+  /**
+   * 查詢緩存，命中時將條目移到最近使用位置
+   */
+  get(key: string): Float32Array | undefined {
+    const embedding = this.entries.get(key);
+    if (!embedding) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, embedding);
+    this.hits++;
+    return embedding;
+  }
+
+  /**
+   * 寫入緩存，超出容量時淘汰最久未使用的條目
+   */
+  set(key: string, embedding: Float32Array): void {
+    this.entries.delete(key);
+    this.entries.set(key, embedding);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+
+    this.isDirty = true;
+  }
+
+  /**
+   * 從磁盤加載緩存，文件損壞時從空緩存開始
+   */
+  load(): void {
+    if (!this.cachePath || !existsSync(this.cachePath)) {
+      return;
+    }
+
+    try {
+      const buffer = readFileSync(this.cachePath);
+      if (buffer.toString('ascii', 0, 4) !== MAGIC || buffer.readUInt32LE(4) !== FORMAT_VERSION) {
+        throw new Error('格式不匹配');
+      }
+
+      const count = buffer.readUInt32LE(8);
+      const entries = new Map<string, Float32Array>();
+      let offset = 12;
+
+      for (let i = 0; i < count; i++) {
+        const key = buffer.toString('ascii', offset, offset + KEY_BYTES);
+        const dim = buffer.readUInt32LE(offset + KEY_BYTES);
+        offset += KEY_BYTES + 4;
+
+        const end = offset + dim * 4;
+        if (end > buffer.length) {
+          throw new Error('文件被截斷');
+        }
+
+        // 複製到新的 ArrayBuffer，避免 Buffer 對齊問題
+        const embedding = new Float32Array(dim);
+        Buffer.from(embedding.buffer).set(buffer.subarray(offset, end));
+        entries.set(key, embedding);
+        offset = end;
+      }
+
+      this.entries = entries;
+      while (this.entries.size > this.maxEntries) {
+        this.entries.delete(this.entries.keys().next().value as string);
+      }
+    } catch (error) {
+      console.warn(`[MemoryGuardian] Embedding 緩存損壞，將重新建立: ${error}`);
+      this.entries.clear();
+    }
+    this.isDirty = false;
+  }
+
+  /**
+   * 保存緩存到磁盤
+   */
+  save(): void {
+    if (!this.cachePath) {
+      return;
+    }
+
+    let size = 12;
+    for (const embedding of this.entries.values()) {
+      size += KEY_BYTES + 4 + embedding.length * 4;
+    }
+
+    const buffer = Buffer.alloc(size);
+    buffer.write(MAGIC, 0, 'ascii');
+    buffer.writeUInt32LE(FORMAT_VERSION, 4);
+    buffer.writeUInt32LE(this.entries.size, 8);
+
+    let offset = 12;
+    for (const [key, embedding] of this.entries) {
+      buffer.write(key, offset, KEY_BYTES, 'ascii');
+      buffer.writeUInt32LE(embedding.length, offset + KEY_BYTES);
+      offset += KEY_BYTES + 4;
+      Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength).copy(buffer, offset);
+      offset += embedding.byteLength;
+    }
+
+    writeFileAtomic(this.cachePath, buffer);
+    this.isDirty = false;
+  }
+
+  /**
+   * 如果有未保存的更改，自動保存
+   */
+  flush(): void {
+    if (this.isDirty) {
+      this.save();
+    }
+  }
+
+  /**
+   * 獲取命中統計
+   */
+  getStats(): EmbeddingCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+    };
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Embedding 指令前綴模組
+ * 非對稱檢索模型（e5、bge、nomic 等）要求查詢和文檔使用不同的前綴或指令，
+ * 此處維護按模型匹配的模板註冊表，並允許用戶在配置中覆蓋
+ */
+
+/**
+ * 向量化角色：查詢或被檢索的文檔
+ */
+export type EmbedRole = 'query' | 'document';
+
+/**
+ * 前綴模板
+ * 含 `{text}` 佔位符時替換為原文，否則作為前綴直接拼接
+ */
+export interface PrefixTemplates {
+  query: string;
+  document: string;
+}
+
+const BGE_EN_QUERY = 'Represent this sentence for searching relevant passages: ';
+const BGE_ZH_QUERY = '为这个句子生成表示以用于检索相关文章：';
+
+/**
+ * 模型前綴註冊表，按順序匹配模型名稱，首個命中生效
+ */
+const PREFIX_REGISTRY: Array<{ pattern: RegExp; templates: PrefixTemplates }> = [
+  // intfloat/e5 系列（含 multilingual-e5）
+  { pattern: /(^|[/:-])e5-|multilingual-e5/i, templates: { query: 'query: ', document: 'passage: ' } },
+  // BAAI/bge 中文模型
+  { pattern: /bge-[a-z]+-zh/i, templates: { query: BGE_ZH_QUERY, document: '' } },
+  // BAAI/bge 英文模型（bge-m3 不需要指令）
+  { pattern: /bge-[a-z]+-en/i, templates: { query: BGE_EN_QUERY, document: '' } },
+  // nomic-embed-text
+  { pattern: /nomic-embed-text/i, templates: { query: 'search_query: ', document: 'search_document: ' } },
+  // mxbai-embed-large
+  { pattern: /mxbai-embed-large/i, templates: { query: BGE_EN_QUERY, document: '' } },
+];
+
+const NO_PREFIX: PrefixTemplates = { query: '', document: '' };
+
+/**
+ * 解析模型的前綴模板
+ * @param model 模型名稱
+ * @param override 用戶配置的覆蓋值，未設置的角色沿用註冊表
+ */
+export function resolvePrefixTemplates(model: string, override?: Partial<PrefixTemplates>): PrefixTemplates {
+  const entry = PREFIX_REGISTRY.find(e => e.pattern.test(model));
+  const base = entry ? entry.templates : NO_PREFIX;
+  return {
+    query: override?.query ?? base.query,
+    document: override?.document ?? base.document,
+  };
+}
+
+/**
+ * 按角色為文本套用前綴模板
+ */
+export function applyPrefix(text: string, role: EmbedRole, templates: PrefixTemplates): string {
+  const template = templates[role];
+  if (!template) {
+    return text;
+  }
+  return template.includes('{text}') ? template.split('{text}').join(text) : template + text;
+}
@@ -0,0 +1,321 @@
+/**
+ * Embedding Provider 實現
+ * - transformers: @xenova/transformers 本地 ONNX 推理（可運行於 worker 線程池）
+ * - ollama: Ollama /api/embed
+ * - openai: OpenAI 兼容的 /v1/embeddings（如 llama.cpp server）
+ */
+
+import type { MemoryGuardianConfig, EmbeddingProviderName, PluginApi } from '../types.js';
+import type { EmbeddingProvider } from './embeddings.js';
+import type { TokenCounter } from './chunk.js';
+import { WorkerPoolEmbeddingProvider } from './embedding-worker-pool.js';
+
+const DEFAULT_OLLAMA_ENDPOINT = 'http://localhost:11434/api/embed';
+const DEFAULT_OPENAI_ENDPOINT = 'http://localhost:8080/v1/embeddings';
+const DEFAULT_HTTP_TIMEOUT_MS = 30000;
+
+// 探測維度用的文本
+export const PROBE_TEXT = 'dimension probe';
+
+/**
+ * L2 正規化，使內積等同於餘弦相似度
+ */
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const result = new Float32Array(vector);
+  let norm = 0;
+  for (let i = 0; i < result.length; i++) {
+    norm += result[i] * result[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) {
+      result[i] /= norm;
+    }
+  }
+  return result;
+}
+
+/**
+ * 帶超時的 JSON POST 請求
+ */
+async function postJson(
+  endpoint: string,
+  body: unknown,
+  timeoutMs: number,
+  headers: Record<string, string> = {}
+): Promise<any> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding API 錯誤: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Embedding 請求超時 (${timeoutMs}ms)`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * 加載 transformers 模型的 tokenizer 作為 token 計數器
+ * 僅加載 tokenizer 配置，不加載 ONNX 模型；worker 線程池在主線程中使用
+ * @param maxTokens 覆蓋模型的最大輸入長度
+ */
+export async function loadTransformersTokenCounter(model: string, maxTokens?: number): Promise<TokenCounter> {
+  const { AutoTokenizer } = await import('@xenova/transformers');
+  const tokenizer = await AutoTokenizer.from_pretrained(model);
+
+  // model_max_length 包含 [CLS]/[SEP] 等特殊 token；未配置時 tokenizer 會給出極大值
+  const modelMax = Number(tokenizer.model_max_length);
+  const detected = Number.isFinite(modelMax) && modelMax > 0 && modelMax < 1e6 ? modelMax - 2 : undefined;
+
+  return {
+    count: (text: string) => tokenizer.encode(text, null, { add_special_tokens: false }).length,
+    maxLength: maxTokens || detected,
+  };
+}
+
+/**
+ * @xenova/transformers 本地推理
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly name: EmbeddingProviderName = 'transformers';
+  readonly model: string;
+  readonly modelId: string;
+  readonly batchSize: number;
+  private pipeline: any = null;
+  private dimension: number | null = null;
+  private quantized: boolean;
+  private maxTokens?: number;
+
+  constructor(options: { model: string; batchSize: number; quantized?: boolean; maxTokens?: number }) {
+    this.model = options.model;
+    this.modelId = options.model;
+    this.batchSize = options.batchSize;
+    this.quantized = options.quantized ?? true;
+    this.maxTokens = options.maxTokens;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.pipeline) {
+      return;
+    }
+
+    // 動態加載，使用遠程 provider 時不必加載 ONNX runtime
+    const { pipeline } = await import('@xenova/transformers');
+
+    // 使用 feature-extraction pipeline
+    // quantized: true 使用量化模型，減少內存佔用
+    const loaded = await pipeline('feature-extraction', this.model, {
+      quantized: this.quantized,
+    });
+
+    // 用一段短文本探測輸出維度
+    const probe = await loaded(PROBE_TEXT, { pooling: 'mean', normalize: true });
+    this.dimension = probe.data.length;
+    this.pipeline = loaded;
+  }
+
+  getDimension(): number {
+    if (this.dimension === null) {
+      throw new Error('Embedding 模型未加載，無法確定向量維度');
+    }
+    return this.dimension;
+  }
+
+  /**
+   * 單次調用處理整個批次
+   * tokenizer 對批內文本補齊到最長序列，mean pooling 依 attention mask 忽略 padding
+   */
+  async embedBatch(texts: string[]): Promise<Float32Array[]> {
+    if (!this.pipeline) {
+      throw new Error('Embedding pipeline 未初始化');
+    }
+
+    // 輸出形狀為 [batch, dim]
+    const output = await this.pipeline(texts, {
+      pooling: 'mean',      // 使用 mean pooling
+      normalize: true,       // L2 正規化，方便餘弦相似度計算
+    });
+
+    const data = output.data as Float32Array;
+    const dim = output.dims[output.dims.length - 1];
+
+    return texts.map((_, row) => new Float32Array(data.subarray(row * dim, (row + 1) * dim)));
+  }
+
+  async getTokenizer(): Promise<TokenCounter> {
+    return loadTransformersTokenCounter(this.model, this.maxTokens);
+  }
+
+  async dispose(): Promise<void> {
+    // @xenova/transformers 的 pipeline 可能有 dispose 方法
+    if (this.pipeline && typeof this.pipeline.dispose === 'function') {
+      await this.pipeline.dispose();
+    }
+    this.pipeline = null;
+    this.dimension = null;
+  }
+}
+
+/**
+ * 基於 HTTP API 的 provider 公共邏輯
+ */
+abstract class HttpEmbeddingProvider implements EmbeddingProvider {
+  abstract readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly batchSize: number;
+  protected endpoint: string;
+  protected timeoutMs: number;
+  private dimension: number | null = null;
+
+  constructor(options: { model: string; endpoint: string; batchSize: number; timeoutMs?: number }) {
+    this.model = options.model;
+    this.endpoint = options.endpoint;
+    this.batchSize = options.batchSize;
+    this.timeoutMs = options.timeoutMs || DEFAULT_HTTP_TIMEOUT_MS;
+  }
+
+  get modelId(): string {
+    return `${this.name}:${this.model}`;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.dimension !== null) {
+      return;
+    }
+    const [probe] = await this.embedBatch([PROBE_TEXT]);
+    this.dimension = probe.length;
+  }
+
+  getDimension(): number {
+    if (this.dimension === null) {
+      throw new Error(`Embedding 服務 ${this.endpoint} 未初始化，無法確定向量維度`);
+    }
+    return this.dimension;
+  }
+
+  async embedBatch(texts: string[]): Promise<Float32Array[]> {
+    const vectors = await this.request(texts);
+    if (vectors.length !== texts.length) {
+      throw new Error(`Embedding 服務返回 ${vectors.length} 個向量，期望 ${texts.length}`);
+    }
+    return vectors.map(normalize);
+  }
+
+  async dispose(): Promise<void> {
+    this.dimension = null;
+  }
+
+  protected abstract request(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Ollama /api/embed
+ */
+export class OllamaEmbeddingProvider extends HttpEmbeddingProvider {
+  readonly name: EmbeddingProviderName = 'ollama';
+
+  protected async request(texts: string[]): Promise<number[][]> {
+    const data = await postJson(this.endpoint, { model: this.model, input: texts }, this.timeoutMs);
+    if (!Array.isArray(data?.embeddings)) {
+      throw new Error('Ollama 返回格式錯誤: 缺少 embeddings');
+    }
+    return data.embeddings;
+  }
+}
+
+/**
+ * OpenAI 兼容的 /v1/embeddings
+ */
+export class OpenAIEmbeddingProvider extends HttpEmbeddingProvider {
+  readonly name: EmbeddingProviderName = 'openai';
+  private apiKey?: string;
+
+  constructor(options: { model: string; endpoint: string; batchSize: number; timeoutMs?: number; apiKey?: string }) {
+    super(options);
+    this.apiKey = options.apiKey;
+  }
+
+  protected async request(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    const data = await postJson(this.endpoint, { model: this.model, input: texts }, this.timeoutMs, headers);
+    if (!Array.isArray(data?.data)) {
+      throw new Error('Embedding 服務返回格式錯誤: 缺少 data');
+    }
+
+    // 按 index 排序，部分服務不保證返回順序
+    return [...data.data]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((item: { embedding: number[] }) => item.embedding);
+  }
+}
+
+/**
+ * 根據配置創建 embedding provider
+ * 本地 transformers 在 embeddingWorkers > 0 時運行於 worker 線程池
+ */
+export function createEmbeddingProvider(
+  config: MemoryGuardianConfig,
+  logger?: PluginApi['logger']
+): EmbeddingProvider {
+  const options = config.embeddingProviderOptions || {};
+
+  switch (config.embeddingProvider) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider({
+        model: config.embeddingModel,
+        endpoint: options.ollama?.endpoint || DEFAULT_OLLAMA_ENDPOINT,
+        batchSize: options.ollama?.batchSize || config.embeddingBatchSize,
+        timeoutMs: options.ollama?.timeoutMs,
+      });
+
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        model: config.embeddingModel,
+        endpoint: options.openai?.endpoint || DEFAULT_OPENAI_ENDPOINT,
+        batchSize: options.openai?.batchSize || config.embeddingBatchSize,
+        timeoutMs: options.openai?.timeoutMs,
+        apiKey: options.openai?.apiKey,
+      });
+
+    case 'transformers':
+    case undefined:
+      if (config.embeddingWorkers > 0) {
+        return new WorkerPoolEmbeddingProvider({
+          model: config.embeddingModel,
+          batchSize: options.transformers?.batchSize || config.embeddingBatchSize,
+          quantized: options.transformers?.quantized,
+          poolSize: config.embeddingWorkers,
+          maxTokens: config.embeddingMaxTokens,
+          logger,
+        });
+      }
+      return new TransformersEmbeddingProvider({
+        model: config.embeddingModel,
+        batchSize: options.transformers?.batchSize || config.embeddingBatchSize,
+        quantized: options.transformers?.quantized,
+        maxTokens: config.embeddingMaxTokens,
+      });
+
+    default:
+      throw new Error(`未知的 embedding provider: ${config.embeddingProvider}`);
+  }
+}
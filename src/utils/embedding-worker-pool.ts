@@ -0,0 +1,320 @@
+/**
+ * Embedding Worker Pool
+ * 將本地 transformers 推理分發到 worker_threads 線程池：
+ * - 查詢（high）任務優先於批量索引（low）任務出隊
+ * - worker 崩潰時自動重啟，並重試其正在處理的任務
+ */
+
+import { Worker } from 'worker_threads';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import type { EmbeddingProviderName, PluginApi } from '../types.js';
+import type { EmbeddingProvider, EmbedPriority } from './embeddings.js';
+import type { TokenCounter } from './chunk.js';
+import { loadTransformersTokenCounter, PROBE_TEXT } from './embedding-providers.js';
+import { EMBEDDING_WORKER_SOURCE } from './embedding-worker.js';
+
+// 崩潰時任務的最大重試次數
+const MAX_JOB_RETRIES = 2;
+// worker 連續啟動失敗的上限，超過後不再重啟
+const MAX_CONSECUTIVE_RESTARTS = 5;
+
+/**
+ * 解析 @xenova/transformers 的入口
+ * eval 模式的 worker 沒有模組路徑，裸模組名會相對工作目錄解析，需由主線程傳入絕對 URL
+ */
+function resolveTransformersUrl(): string {
+  return pathToFileURL(createRequire(import.meta.url).resolve('@xenova/transformers')).href;
+}
+
+interface EmbedJob {
+  id: number;
+  texts: string[];
+  attempts: number;
+  resolve: (embeddings: Float32Array[]) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: boolean;
+  job: EmbedJob | null;
+}
+
+type Logger = PluginApi['logger'];
+
+export interface EmbeddingPoolStats {
+  /** 存活的 worker 數量 */
+  workers: number;
+  /** 正在處理任務的 worker 數量 */
+  busy: number;
+  /** 等待中的查詢任務數 */
+  queuedHigh: number;
+  /** 等待中的批量任務數 */
+  queuedLow: number;
+  /** 累計崩潰重啟次數 */
+  restarts: number;
+}
+
+/**
+ * 基於 worker_threads 的本地 transformers provider
+ */
+export class WorkerPoolEmbeddingProvider implements EmbeddingProvider {
+  readonly name: EmbeddingProviderName = 'transformers';
+  readonly model: string;
+  readonly modelId: string;
+  readonly batchSize: number;
+  private quantized: boolean;
+  private maxTokens?: number;
+  private poolSize: number;
+  private logger: Logger;
+  private workers: PoolWorker[] = [];
+  private highQueue: EmbedJob[] = [];
+  private lowQueue: EmbedJob[] = [];
+  private dimension: number | null = null;
+  private nextJobId: number = 0;
+  private restarts: number = 0;
+  private consecutiveFailures: number = 0;
+  private disposed: boolean = false;
+
+  constructor(options: {
+    model: string;
+    batchSize: number;
+    poolSize: number;
+    quantized?: boolean;
+    maxTokens?: number;
+    logger?: Logger;
+  }) {
+    this.model = options.model;
+    this.modelId = options.model;
+    this.batchSize = options.batchSize;
+    this.poolSize = Math.max(1, options.poolSize);
+    this.quantized = options.quantized ?? true;
+    this.maxTokens = options.maxTokens;
+    this.logger = options.logger || console;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.dimension !== null) {
+      return;
+    }
+
+    this.disposed = false;
+    let dimensions: number[];
+    try {
+      dimensions = await Promise.all(
+        Array.from({ length: this.poolSize }, () => this.spawnWorker())
+      );
+    } catch (error) {
+      // 任一 worker 啟動失敗時終止已啟動的 worker
+      await this.dispose();
+      throw error;
+    }
+    this.dimension = dimensions[0];
+    this.logger.info(`[EmbeddingPool] 已啟動 ${this.poolSize} 個 embedding worker`);
+  }
+
+  getDimension(): number {
+    if (this.dimension === null) {
+      throw new Error('Embedding worker 未初始化，無法確定向量維度');
+    }
+    return this.dimension;
+  }
+
+  embedBatch(texts: string[], options: { priority?: EmbedPriority } = {}): Promise<Float32Array[]> {
+    if (this.disposed) {
+      return Promise.reject(new Error('Embedding worker pool 已關閉'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const job: EmbedJob = { id: this.nextJobId++, texts, attempts: 0, resolve, reject };
+      (options.priority === 'high' ? this.highQueue : this.lowQueue).push(job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * tokenizer 很輕量，直接在主線程加載，切塊時同步計數
+   */
+  async getTokenizer(): Promise<TokenCounter> {
+    return loadTransformersTokenCounter(this.model, this.maxTokens);
+  }
+
+  async dispose(): Promise<void> {
+    this.disposed = true;
+
+    const error = new Error('Embedding worker pool 已關閉');
+    for (const job of [...this.highQueue, ...this.lowQueue]) {
+      job.reject(error);
+    }
+    this.highQueue = [];
+    this.lowQueue = [];
+
+    const workers = this.workers;
+    this.workers = [];
+    for (const entry of workers) {
+      entry.job?.reject(error);
+      entry.job = null;
+    }
+    await Promise.all(workers.map(entry => entry.worker.terminate()));
+    this.dimension = null;
+  }
+
+  /**
+   * 獲取線程池狀態
+   */
+  getStats(): EmbeddingPoolStats {
+    return {
+      workers: this.workers.length,
+      busy: this.workers.filter(w => w.job).length,
+      queuedHigh: this.highQueue.length,
+      queuedLow: this.lowQueue.length,
+      restarts: this.restarts,
+    };
+  }
+
+  /**
+   * 啟動一個 worker，模型加載完成後返回探測出的維度
+   */
+  private spawnWorker(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(EMBEDDING_WORKER_SOURCE, {
+        eval: true,
+        workerData: {
+          transformersUrl: resolveTransformersUrl(),
+          model: this.model,
+          quantized: this.quantized,
+          probeText: PROBE_TEXT,
+        },
+      });
+      const entry: PoolWorker = { worker, ready: false, job: null };
+      this.workers.push(entry);
+
+      worker.on('message', (message) => {
+        switch (message.type) {
+          case 'ready':
+            entry.ready = true;
+            this.consecutiveFailures = 0;
+            resolve(message.dimension);
+            this.dispatch();
+            break;
+
+          case 'init-error':
+            this.removeWorker(entry);
+            worker.terminate();
+            reject(new Error(message.error));
+            break;
+
+          case 'result':
+          case 'error': {
+            const job = entry.job;
+            entry.job = null;
+            if (job && job.id === message.id) {
+              if (message.type === 'result') {
+                job.resolve(message.embeddings);
+              } else {
+                job.reject(new Error(message.error));
+              }
+            }
+            this.dispatch();
+            break;
+          }
+        }
+      });
+
+      worker.on('error', (error) => {
+        this.logger.error(`[EmbeddingPool] Embedding worker 崩潰: ${error.message}`);
+      });
+
+      worker.on('exit', (code) => {
+        if (!this.workers.includes(entry)) {
+          return;
+        }
+        this.removeWorker(entry);
+
+        if (!entry.ready) {
+          reject(new Error(`Embedding worker 啟動失敗 (exit code ${code})`));
+          return;
+        }
+
+        this.handleCrash(entry, code);
+      });
+    });
+  }
+
+  /**
+   * 處理運行中 worker 的意外退出：重試其任務並重啟 worker
+   */
+  private handleCrash(entry: PoolWorker, code: number): void {
+    if (this.disposed) {
+      return;
+    }
+
+    this.logger.error(`[EmbeddingPool] Embedding worker 意外退出 (exit code ${code})，正在重啟`);
+
+    const job = entry.job;
+    if (job) {
+      job.attempts++;
+      if (job.attempts > MAX_JOB_RETRIES) {
+        job.reject(new Error(`Embedding 任務在 worker 崩潰後重試 ${MAX_JOB_RETRIES} 次仍失敗`));
+      } else {
+        // 放回高優先級隊列頭部，盡快重試
+        this.highQueue.unshift(job);
+      }
+    }
+
+    this.restart();
+  }
+
+  /**
+   * 重啟一個 worker，連續失敗過多時放棄
+   */
+  private restart(): void {
+    if (this.disposed) {
+      return;
+    }
+
+    if (this.consecutiveFailures >= MAX_CONSECUTIVE_RESTARTS) {
+      this.logger.error(`[EmbeddingPool] Embedding worker 連續 ${MAX_CONSECUTIVE_RESTARTS} 次重啟失敗，停止重啟`);
+      if (this.workers.length === 0) {
+        const error = new Error('沒有可用的 embedding worker');
+        for (const job of [...this.highQueue, ...this.lowQueue]) {
+          job.reject(error);
+        }
+        this.highQueue = [];
+        this.lowQueue = [];
+      }
+      return;
+    }
+
+    this.restarts++;
+    this.consecutiveFailures++;
+    this.spawnWorker()
+      .then(() => {
+        this.logger.info('[EmbeddingPool] Embedding worker 已重啟');
+      })
+      .catch((error) => {
+        this.logger.error(`[EmbeddingPool] Embedding worker 重啟失敗: ${error instanceof Error ? error.message : String(error)}`);
+        this.restart();
+      });
+  }
+
+  private removeWorker(entry: PoolWorker): void {
+    this.workers = this.workers.filter(w => w !== entry);
+  }
+
+  /**
+   * 將等待中的任務分配給空閒 worker，高優先級隊列先出隊
+   */
+  private dispatch(): void {
+    for (const entry of this.workers) {
+      if (!entry.ready || entry.job) continue;
+
+      const job = this.highQueue.shift() || this.lowQueue.shift();
+      if (!job) return;
+
+      entry.job = job;
+      entry.worker.postMessage({ type: 'embed', id: job.id, texts: job.texts });
+    }
+  }
+}
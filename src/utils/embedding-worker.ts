@@ -0,0 +1,60 @@
+/**
+ * Embedding Worker
+ * 在 worker_threads 中運行 @xenova/transformers 推理，避免阻塞 Gateway 主事件循環
+ *
+ * 插件以 .ts 源碼發佈，由宿主的 TypeScript loader 在主線程加載；worker 線程不繼承該 loader，
+ * 無法加載 .ts 文件。因此 worker 腳本以純 JavaScript 源碼（eval 模式）啟動，
+ * 不依賴插件的其他模組，@xenova/transformers 由主線程解析後以 URL 傳入
+ *
+ * workerData: { transformersUrl, model, quantized, probeText }
+ *
+ * 消息協議：
+ * - worker → 主線程: { type: 'ready', dimension } | { type: 'init-error', error }
+ * - 主線程 → worker: { type: 'embed', id, texts }
+ * - worker → 主線程: { type: 'result', id, embeddings } | { type: 'error', id, error }
+ */
+
+export const EMBEDDING_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+
+const errorMessage = (error) => error instanceof Error ? error.message : String(error);
+
+let extractor = null;
+
+// 單次調用處理整個批次，輸出形狀為 [batch, dim]；mean pooling 依 attention mask 忽略 padding
+async function embed(texts) {
+  const output = await extractor(texts, { pooling: 'mean', normalize: true });
+  const data = output.data;
+  const dim = output.dims[output.dims.length - 1];
+  return texts.map((_, row) => new Float32Array(data.subarray(row * dim, (row + 1) * dim)));
+}
+
+import(workerData.transformersUrl)
+  .then(({ pipeline }) => pipeline('feature-extraction', workerData.model, { quantized: workerData.quantized }))
+  .then(async (loaded) => {
+    extractor = loaded;
+    // 用一段短文本探測輸出維度
+    const [probe] = await embed([workerData.probeText]);
+    parentPort.postMessage({ type: 'ready', dimension: probe.length });
+  })
+  .catch((error) => {
+    parentPort.postMessage({ type: 'init-error', error: errorMessage(error) });
+  });
+
+parentPort.on('message', async (message) => {
+  if (message.type !== 'embed') {
+    return;
+  }
+
+  try {
+    const embeddings = await embed(message.texts);
+    // 轉移底層 buffer，避免複製
+    parentPort.postMessage(
+      { type: 'result', id: message.id, embeddings },
+      embeddings.map(e => e.buffer)
+    );
+  } catch (error) {
+    parentPort.postMessage({ type: 'error', id: message.id, error: errorMessage(error) });
+  }
+});
+`;
@@ -1,45 +1,125 @@
 /**
  * Embeddings 模組
- * 使用 @xenova/transformers 本地運行 all-MiniLM-L6-v2 模型
- * 產生 384 維特徵向量
+ * 通過可插拔的 EmbeddingProvider 將文本轉換為向量：
+ * 本地 @xenova/transformers（默認 all-MiniLM-L6-v2）、Ollama 或 OpenAI 兼容服務。
+ * 向量維度在 provider 初始化時探測得出，緩存、分批和長度分桶在此統一處理
  */
 
-import { pipeline } from '@xenova/transformers';
+import type { EmbeddingProviderName } from '../types.js';
+import { EmbeddingCache, type EmbeddingCacheStats } from './embedding-cache.js';
+import { TransformersEmbeddingProvider } from './embedding-providers.js';
+import type { TokenCounter } from './chunk.js';
+import { resolvePrefixTemplates, applyPrefix, type EmbedRole, type PrefixTemplates } from './embedding-prefixes.js';
 
-// Singleton pipeline instance - use any to avoid type mismatch
-let embeddingPipeline: any = null;
-let initPromise: Promise<any> | null = null;
+export type { EmbedRole, PrefixTemplates } from './embedding-prefixes.js';
+
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+const DEFAULT_BATCH_SIZE = 32;
+
+/**
+ * 推理優先級：查詢（high）優先於批量索引（low）
+ */
+export type EmbedPriority = 'high' | 'low';
+
+/**
+ * Embedding Provider 接口
+ * 向量存儲和向量化服務只依賴此接口，不關心具體推理後端
+ */
+export interface EmbeddingProvider {
+  /** Provider 名稱 */
+  readonly name: EmbeddingProviderName;
+  /** 模型名稱 */
+  readonly model: string;
+  /** 模型唯一標識，記錄在索引元數據和緩存鍵中（不同 provider 的同名模型視為不同模型） */
+  readonly modelId: string;
+  /** 每次請求的最大文本數量 */
+  readonly batchSize: number;
+  /** 加載模型或連接服務，並探測向量維度 */
+  initialize(): Promise<void>;
+  /** 向量維度，initialize 後可用 */
+  getDimension(): number;
+  /** 向量化一批文本，返回 L2 正規化後的向量，順序與輸入一致 */
+  embedBatch(texts: string[], options?: { priority?: EmbedPriority }): Promise<Float32Array[]>;
+  /** 加載模型對應的 tokenizer，用於按 token 切塊；無法在本地計數時返回 null */
+  getTokenizer?(): Promise<TokenCounter | null>;
+  /** 釋放資源 */
+  dispose(): Promise<void>;
+}
+
+// 當前使用的 provider
+let activeProvider: EmbeddingProvider | null = null;
+let initPromise: Promise<EmbeddingProvider> | null = null;
+// 當前模型的查詢/文檔前綴模板
+let prefixTemplates: PrefixTemplates = { query: '', document: '' };
+// 向量緩存，默認僅在內存中；服務啟動時替換為持久化緩存
+let embeddingCache: EmbeddingCache = new EmbeddingCache();
+
+/**
+ * 設置 embedding 緩存（例如帶磁盤持久化的實例）
+ */
+export function setEmbeddingCache(cache: EmbeddingCache): void {
+  embeddingCache = cache;
+}
+
+/**
+ * 將緩存的未保存條目寫入磁盤
+ */
+export function flushEmbeddingCache(): void {
+  embeddingCache.flush();
+}
 
 /**
- * 初始化 embedding pipeline
- * 使用 singleton 模式避免重複加載模型
+ * 獲取緩存命中統計
  */
-export async function initEmbeddings(modelName: string = 'Xenova/all-MiniLM-L6-v2'): Promise<any> {
-  if (embeddingPipeline) {
-    return embeddingPipeline;
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+  return embeddingCache.getStats();
+}
+
+/**
+ * 初始化 embedding provider
+ * 使用 singleton 模式避免重複加載模型；切換 provider 時釋放舊 provider
+ * @param provider provider 實例，或本地 transformers 模型名稱
+ * @param options.prefixes 覆蓋模型註冊表中的查詢/文檔前綴模板
+ */
+export async function initEmbeddings(
+  provider: EmbeddingProvider | string = activeProvider || DEFAULT_EMBEDDING_MODEL,
+  options: { prefixes?: Partial<PrefixTemplates> } = {}
+): Promise<EmbeddingProvider> {
+  const target = typeof provider === 'string'
+    ? (activeProvider?.name === 'transformers' && activeProvider.model === provider
+        ? activeProvider
+        : new TransformersEmbeddingProvider({ model: provider, batchSize: DEFAULT_BATCH_SIZE }))
+    : provider;
+
+  if (activeProvider && activeProvider !== target) {
+    if (initPromise) {
+      await initPromise.catch(() => undefined);
+    }
+    await disposeEmbeddings();
   }
 
-  if (initPromise) {
+  if (activeProvider === target && initPromise) {
     return initPromise;
   }
 
+  activeProvider = target;
+  prefixTemplates = resolvePrefixTemplates(target.model, options.prefixes);
+
   initPromise = (async () => {
-    console.log(`[MemoryGuardian] 正在加載 embedding 模型: ${modelName}`);
+    console.log(`[MemoryGuardian] 正在加載 embedding 模型: ${target.modelId}`);
     const startTime = Date.now();
     
     try {
-      // 使用 feature-extraction pipeline
-      // quantized: true 使用量化模型，減少內存佔用
-      embeddingPipeline = await pipeline('feature-extraction', modelName, {
-        quantized: true,
-      });
+      await target.initialize();
       
       const loadTime = Date.now() - startTime;
-      console.log(`[MemoryGuardian] Embedding 模型加載完成，耗時 ${loadTime}ms`);
+      console.log(`[MemoryGuardian] Embedding 模型加載完成，維度 ${target.getDimension()}，耗時 ${loadTime}ms`);
       
-      return embeddingPipeline;
+      return target;
     } catch (error) {
       initPromise = null;
+      activeProvider = null;
       throw new Error(`加載 embedding 模型失敗: ${error instanceof Error ? error.message : String(error)}`);
     }
   })();
@@ -48,80 +128,141 @@ export async function initEmbeddings(modelName: string = 'Xenova/all-MiniLM-L6-v
 }
 
 /**
- * 將單個文本轉換為 384 維向量
- * @param text 輸入文本
- * @returns Float32Array 384 維向量
+ * 確保 provider 已初始化
  */
-export async function embedText(text: string): Promise<Float32Array> {
-  if (!embeddingPipeline) {
-    await initEmbeddings();
-  }
-
-  if (!embeddingPipeline) {
-    throw new Error('Embedding pipeline 未初始化');
-  }
+async function ensureProvider(): Promise<EmbeddingProvider> {
+  return initPromise || initEmbeddings();
+}
 
-  // Transformers.js 返回的是 Tensor 對象
-  const output = await embeddingPipeline(text, {
-    pooling: 'mean',      // 使用 mean pooling
-    normalize: true,       // L2 正規化，方便餘弦相似度計算
-  });
+/**
+ * 獲取當前模型的 token 計數器
+ * provider 不支持本地 tokenizer 時返回 null
+ */
+export async function getTokenCounter(): Promise<TokenCounter | null> {
+  const provider = await ensureProvider();
+  return provider.getTokenizer ? provider.getTokenizer() : null;
+}
 
-  // 提取數據為 Float32Array
-  // output.data 是扁平化的 Float32Array
-  const embedding = new Float32Array(output.data as ArrayLike<number>);
-  
-  // 確保維度正確（all-MiniLM-L6-v2 是 384 維）
-  if (embedding.length !== 384) {
-    console.warn(`[MemoryGuardian] 向量維度異常: ${embedding.length}，期望 384`);
-  }
+/**
+ * 獲取當前模型的查詢/文檔前綴模板
+ */
+export function getEmbeddingPrefixes(): PrefixTemplates {
+  return prefixTemplates;
+}
 
+/**
+ * 將單個文本轉換為向量
+ * 優先從緩存讀取
+ * @param text 輸入文本
+ * @param role 向量化角色，默認為查詢
+ * @returns Float32Array 向量（維度見 getEmbeddingDimension）
+ */
+export async function embedText(text: string, role: EmbedRole = 'query'): Promise<Float32Array> {
+  // 單條文本通常是查詢，優先於批量索引
+  const [embedding] = await embedTexts([text], { role, priority: 'high' });
   return embedding;
 }
 
+export interface EmbedBatchOptions {
+  /** 每次送入模型的文本數量，默認使用 provider 的批次大小 */
+  batchSize?: number;
+  /** 推理優先級，默認 low */
+  priority?: EmbedPriority;
+  /** 向量化角色，決定套用的前綴模板，默認為文檔 */
+  role?: EmbedRole;
+  /** 是否讀寫 embedding 緩存，默認 true；不會重複使用的臨時文本應關閉，避免擠出切塊向量 */
+  cache?: boolean;
+}
+
 /**
  * 批量將文本轉換為向量
+ * 文本先按角色套用模型的前綴模板；已緩存的文本直接返回，僅未命中的文本送入 provider；
+ * 文本按長度分桶後分批請求：同一批內長度相近，本地模型的 padding 開銷最小
  * @param texts 文本數組
- * @returns Float32Array 數組
+ * @returns Float32Array 數組，順序與輸入一致
  */
-export async function embedTexts(texts: string[]): Promise<Float32Array[]> {
+export async function embedTexts(texts: string[], options: EmbedBatchOptions = {}): Promise<Float32Array[]> {
   if (texts.length === 0) {
     return [];
   }
 
-  if (!embeddingPipeline) {
-    await initEmbeddings();
-  }
+  const provider = await ensureProvider();
+  const dimension = provider.getDimension();
+  const role = options.role || 'document';
+  texts = texts.map(text => applyPrefix(text, role, prefixTemplates));
+  const batchSize = Math.max(1, options.batchSize || provider.batchSize || DEFAULT_BATCH_SIZE);
+  const embeddings: Float32Array[] = new Array(texts.length);
 
-  if (!embeddingPipeline) {
-    throw new Error('Embedding pipeline 未初始化');
-  }
+  // 查詢緩存；未命中的相同文本只計算一次
+  const useCache = options.cache !== false;
+  const keys = texts.map(text => EmbeddingCache.key(provider.modelId, text));
+  const pending = new Map<string, number[]>();
+  keys.forEach((key, index) => {
+    const cached = pending.has(key) || !useCache ? undefined : embeddingCache.get(key);
+    if (cached) {
+      embeddings[index] = cached;
+    } else {
+      pending.set(key, [...(pending.get(key) || []), index]);
+    }
+  });
 
-  const embeddings: Float32Array[] = [];
+  // 按長度排序分桶，記錄原始位置以便還原順序
+  const order = Array.from(pending.values())
+    .map(indices => indices[0])
+    .sort((a, b) => texts[a].length - texts[b].length);
   
-  // 批量處理以提高效率
-  // 但單個請求避免過大，分批處理
-  const batchSize = 32;
-  
-  for (let i = 0; i < texts.length; i += batchSize) {
-    const batch = texts.slice(i, i + batchSize);
-    
-    // 對批次中的每個文本進行 embedding
-    const batchPromises = batch.map(async (text) => {
-      const output = await embeddingPipeline!(text, {
-        pooling: 'mean',
-        normalize: true,
-      });
-      return new Float32Array(output.data as ArrayLike<number>);
-    });
+  for (let i = 0; i < order.length; i += batchSize) {
+    const indices = order.slice(i, i + batchSize);
+    const batchEmbeddings = await provider.embedBatch(
+      indices.map(index => texts[index]),
+      { priority: options.priority || 'low' }
+    );
+
+    indices.forEach((index, row) => {
+      const embedding = batchEmbeddings[row];
 
-    const batchResults = await Promise.all(batchPromises);
-    embeddings.push(...batchResults);
+      // 確保維度與初始化時探測的一致
+      if (embedding.length !== dimension) {
+        console.warn(`[MemoryGuardian] 向量維度異常: ${embedding.length}，期望 ${dimension}`);
+      }
+
+      if (useCache) {
+        embeddingCache.set(keys[index], embedding);
+      }
+      for (const target of pending.get(keys[index])!) {
+        embeddings[target] = embedding;
+      }
+    });
   }
 
   return embeddings;
 }
 
+/**
+ * 計算多個向量的平均並重新 L2 正規化
+ */
+export function averageEmbeddings(vectors: Float32Array[]): Float32Array {
+  if (vectors.length === 0) {
+    throw new Error('沒有可平均的向量');
+  }
+
+  const result = new Float32Array(vectors[0].length);
+  for (const vector of vectors) {
+    if (vector.length !== result.length) {
+      throw new Error(`向量維度不匹配: ${vector.length} vs ${result.length}`);
+    }
+    for (let i = 0; i < vector.length; i++) {
+      result[i] += vector[i];
+    }
+  }
+
+  const norm = Math.sqrt(result.reduce((sum, x) => sum + x * x, 0)) || 1;
+  for (let i = 0; i < result.length; i++) {
+    result[i] /= norm;
+  }
+  return result;
+}
+
 /**
  * 計算兩個向量的餘弦相似度
  * 由於向量已經 L2 正規化，直接計算點積即可
@@ -140,23 +281,32 @@ export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
 }
 
 /**
- * 釋放 embedding pipeline 資源
+ * 釋放 embedding provider 資源
  */
 export async function disposeEmbeddings(): Promise<void> {
-  if (embeddingPipeline) {
-    // @xenova/transformers 的 pipeline 可能有 dispose 方法
-    if (typeof (embeddingPipeline as any).dispose === 'function') {
-      await (embeddingPipeline as any).dispose();
-    }
-    embeddingPipeline = null;
+  if (activeProvider) {
+    const provider = activeProvider;
+    activeProvider = null;
     initPromise = null;
-    console.log('[MemoryGuardian] Embedding pipeline 已釋放');
+    await provider.dispose();
+    console.log('[MemoryGuardian] Embedding provider 已釋放');
   }
 }
 
 /**
  * 獲取 embedding 維度
+ * 維度由 provider 初始化時探測得出，必須先調用 initEmbeddings
  */
 export function getEmbeddingDimension(): number {
-  return 384;  // all-MiniLM-L6-v2 固定 384 維
+  if (!activeProvider) {
+    throw new Error('Embedding 模型未加載，無法確定向量維度');
+  }
+  return activeProvider.getDimension();
+}
+
+/**
+ * 獲取當前 embedding 模型標識（見 EmbeddingProvider.modelId）
+ */
+export function getEmbeddingModel(): string | null {
+  return activeProvider?.modelId ?? null;
 }
@@ -4,17 +4,77 @@
  */
 
 import { IndexFlatIP } from 'faiss-node';
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { readFileSync, existsSync, mkdirSync, renameSync, unlinkSync } from 'fs';
 import { dirname, join } from 'path';
-import type { TextChunk, VectorDocument, SearchResult } from '../types.js';
-import { getEmbeddingDimension } from './embeddings.js';
+import type { TextChunk, VectorDocument, SearchResult, SearchFilter } from '../types.js';
+import { matchesFilter, isEmptyFilter } from './filter.js';
+import { writeFileSynced, fsyncDir, sha256 } from './atomic-file.js';
+import { Bm25Index, type LexicalMatch } from './bm25-index.js';
+import { getEmbeddingText } from './chunk.js';
 
 // FAISS 索引路徑
 const DEFAULT_INDEX_PATH = join(process.env.HOME || '~', '.openclaw', 'memory', 'vector.index');
 const DEFAULT_META_PATH = join(process.env.HOME || '~', '.openclaw', 'memory', 'vector.meta.json');
 
-// 向量維度 (all-MiniLM-L6-v2 = 384)
-const DIMENSION = getEmbeddingDimension();
+// 元數據格式版本（2 起帶有 generation 和校驗和）
+const META_VERSION = 2;
+
+/**
+ * 索引加載時的恢復狀態
+ * - none: 正常加載最新快照
+ * - snapshot: 最新快照校驗失敗，已回退到上一個完好快照
+ * - empty: 沒有可用快照，已創建空索引，需要從源文件重建
+ */
+export type RecoveryState = 'none' | 'snapshot' | 'empty';
+
+export interface VectorStoreOptions {
+  indexPath?: string;
+  metaPath?: string;
+  /** 新建索引時的向量維度（由 embedding provider 探測得出） */
+  dimension: number;
+  /** 產生向量的 embedding 模型，記錄在元數據中用於檢測模型變更 */
+  embeddingModel?: string;
+  /** 文檔向量化時套用的前綴模板 */
+  documentPrefix?: string;
+}
+
+/**
+ * 索引中記錄的 embedding 模型信息
+ */
+export interface EmbeddingInfo {
+  /** 模型名稱（舊版索引未記錄時為 null） */
+  model: string | null;
+  /** 向量維度 */
+  dimension: number;
+  /** 文檔向量化時套用的前綴模板（舊版索引為空字符串） */
+  documentPrefix: string;
+}
+
+interface LoadedSnapshot {
+  index: IndexFlatIP;
+  /** 從索引文件中取出的所有向量，格式無法識別時為 null */
+  vectors: Float32Array | null;
+  embeddingModel: string | null;
+  documentPrefix: string;
+  generation: number;
+  nextId: number;
+  documents: Array<[number, TextChunk]>;
+  deletedIds: number[];
+}
+
+/**
+ * 從 IndexFlatIP 的序列化數據中取出所有向量
+ * faiss-node 不提供 reconstruct；平面索引序列化時向量數據（ntotal × d 個 float32）位於末尾，
+ * 格式無法識別時返回 null
+ */
+function readFlatVectors(buffer: Buffer, ntotal: number, dimension: number): Float32Array | null {
+  const byteLength = ntotal * dimension * 4;
+  if (buffer.subarray(0, 4).toString('latin1') !== 'IxFI' || buffer.length < 4 + byteLength) {
+    return null;
+  }
+  // 複製到新的 ArrayBuffer，保證 4 字節對齊
+  return new Float32Array(new Uint8Array(buffer.subarray(buffer.length - byteLength)).buffer);
+}
 
 /**
  * FAISS 向量存儲類
@@ -23,14 +83,35 @@ const DIMENSION = getEmbeddingDimension();
 export class FaissVectorStore {
   private index: IndexFlatIP | null = null;
   private documents: Map<number, TextChunk> = new Map();
+  /** 已刪除但仍留在 FAISS 索引中的 ID（墓碑），搜索時跳過，compact() 時清除 */
+  private deletedIds: Set<number> = new Set();
+  /** 切塊 ID 到文檔 ID 的索引，用於去重和增量更新 */
+  private chunkIds: Map<string, number> = new Map();
+  /** 與向量索引同步的 BM25 詞法索引（僅在內存中，加載時由文檔重建） */
+  private lexical: Bm25Index = new Bm25Index();
+  /** 來源路徑到文檔 ID 的索引，用於查找相鄰切塊 */
+  private sources: Map<string, Set<number>> = new Map();
+  // 文檔 ID → 已存向量，供 MMR 等需要候選向量的步驟使用，無需重新推理
+  private vectors: Map<number, Float32Array> = new Map();
   private nextId: number = 0;
   private indexPath: string;
   private metaPath: string;
   private isDirty: boolean = false;
-
-  constructor(options: { indexPath?: string; metaPath?: string } = {}) {
+  /** 快照代數，索引文件和元數據文件共享，每次保存遞增 */
+  private generation: number = 0;
+  private recovery: RecoveryState = 'none';
+  /** 新建索引時使用的維度 */
+  private dimension: number;
+  /** 索引向量所屬的 embedding 模型 */
+  private embeddingModel: string | null;
+  private documentPrefix: string;
+
+  constructor(options: VectorStoreOptions) {
     this.indexPath = options.indexPath || DEFAULT_INDEX_PATH;
     this.metaPath = options.metaPath || DEFAULT_META_PATH;
+    this.dimension = options.dimension;
+    this.embeddingModel = options.embeddingModel || null;
+    this.documentPrefix = options.documentPrefix || '';
   }
 
   /**
@@ -45,12 +126,28 @@ export class FaissVectorStore {
     }
 
     // 嘗試加載現有索引
-    if (existsSync(this.indexPath) && existsSync(this.metaPath)) {
-      await this.load();
-      console.log(`[MemoryGuardian] FAISS 索引已加載，共 ${this.documents.size} 個文檔`);
+    if (this.hasSnapshotFiles()) {
+      try {
+        await this.load();
+        console.log(`[MemoryGuardian] FAISS 索引已加載，共 ${this.documents.size} 個文檔`);
+      } catch (error) {
+        // 沒有任何完好快照：隔離損壞文件，從空索引開始，由上層從源文件重建
+        console.error(`[MemoryGuardian] FAISS 索引無法恢復，將從源文件重建: ${error}`);
+        this.quarantineSnapshotFiles();
+        this.index = new IndexFlatIP(this.dimension);
+        this.documents.clear();
+        this.deletedIds.clear();
+        this.chunkIds.clear();
+        this.lexical.clear();
+        this.sources.clear();
+        this.vectors.clear();
+        this.nextId = 0;
+        this.generation = 0;
+        this.recovery = 'empty';
+      }
     } else {
       // 創建新的 IndexFlatIP（內積索引，適合正規化後的向量）
-      this.index = new IndexFlatIP(DIMENSION);
+      this.index = new IndexFlatIP(this.dimension);
       console.log('[MemoryGuardian] 已創建新的 FAISS 索引');
     }
   }
@@ -63,8 +160,9 @@ export class FaissVectorStore {
       throw new Error('FAISS 索引未初始化');
     }
 
-    if (embedding.length !== DIMENSION) {
-      throw new Error(`向量維度錯誤: ${embedding.length}，期望 ${DIMENSION}`);
+    const dimension = this.index.getDimension();
+    if (embedding.length !== dimension) {
+      throw new Error(`向量維度錯誤: ${embedding.length}，期望 ${dimension}`);
     }
 
     const id = this.nextId++;
@@ -74,6 +172,8 @@ export class FaissVectorStore {
     
     // 保存元數據
     this.documents.set(id, chunk);
+    this.vectors.set(id, new Float32Array(embedding));
+    this.indexDocument(id, chunk);
     this.isDirty = true;
 
     return id;
@@ -88,9 +188,10 @@ export class FaissVectorStore {
     }
 
     const ids: number[] = [];
+    const dimension = this.index.getDimension();
 
     for (const { chunk, embedding } of items) {
-      if (embedding.length !== DIMENSION) {
+      if (embedding.length !== dimension) {
         console.warn(`[MemoryGuardian] 跳過維度錯誤的向量: ${embedding.length}`);
         continue;
       }
@@ -98,6 +199,8 @@ export class FaissVectorStore {
       const id = this.nextId++;
       this.index.add(Array.from(embedding));
       this.documents.set(id, chunk);
+      this.vectors.set(id, new Float32Array(embedding));
+      this.indexDocument(id, chunk);
       ids.push(id);
     }
 
@@ -109,9 +212,10 @@ export class FaissVectorStore {
    * 搜索最相似的向量
    * @param queryEmbedding 查詢向量
    * @param k 返回的結果數量
+   * @param filter 元數據過濾條件；有過濾時會逐步擴大檢索範圍，直到湊滿 k 個匹配結果
    * @returns 搜索結果數組
    */
-  async search(queryEmbedding: Float32Array, k: number = 5): Promise<SearchResult[]> {
+  async search(queryEmbedding: Float32Array, k: number = 5, filter?: SearchFilter): Promise<SearchResult[]> {
     if (!this.index) {
       throw new Error('FAISS 索引未初始化');
     }
@@ -120,32 +224,81 @@ export class FaissVectorStore {
       return [];
     }
 
-    // 確保 k 不超過文檔數量
-    const actualK = Math.min(k, this.documents.size);
+    const total = this.index.ntotal();
+    const hasFilter = !isEmptyFilter(filter);
 
-    // 執行搜索
-    // IndexFlatIP 返回內積分數（對於正規化向量等同於餘弦相似度）
-    const results = this.index.search(Array.from(queryEmbedding), actualK);
+    // 有過濾時先統計匹配文檔數，k 不超過可返回的上限
+    let matchCount = this.documents.size;
+    if (hasFilter) {
+      matchCount = 0;
+      for (const chunk of this.documents.values()) {
+        if (matchesFilter(chunk, filter)) matchCount++;
+      }
+      if (matchCount === 0) {
+        return [];
+      }
+    }
+    const wanted = Math.min(k, matchCount);
+
+    // 索引中仍含有墓碑向量，需多取 deletedIds.size 個結果才能保證 k 個有效命中
+    let fetchK = Math.min(k + this.deletedIds.size, total);
+    if (hasFilter) {
+      // 按匹配比例估算初始檢索量，不足時倍增
+      const ratio = this.documents.size / matchCount;
+      fetchK = Math.min(Math.ceil(wanted * ratio * 2) + this.deletedIds.size, total);
+    }
 
-    const searchResults: SearchResult[] = [];
+    const query = Array.from(queryEmbedding);
 
-    for (let i = 0; i < results.labels.length; i++) {
-      const id = results.labels[i];
-      const distance = 1 - results.distances[i];  // 轉換為距離（內積越大距離越小）
-      
-      // FAISS 可能返回 -1 表示無效結果
-      if (id < 0) continue;
+    while (true) {
+      // 執行搜索
+      // IndexFlatIP 返回內積分數（對於正規化向量等同於餘弦相似度）
+      const results = this.index.search(query, fetchK);
 
-      const chunk = this.documents.get(id);
-      if (!chunk) {
-        console.warn(`[MemoryGuardian] 找不到文檔 ID: ${id}`);
-        continue;
+      const searchResults: SearchResult[] = [];
+
+      for (let i = 0; i < results.labels.length && searchResults.length < wanted; i++) {
+        const id = results.labels[i];
+        const distance = 1 - results.distances[i];  // 轉換為距離（內積越大距離越小）
+        
+        // FAISS 可能返回 -1 表示無效結果
+        if (id < 0) continue;
+
+        // 跳過已刪除的文檔
+        if (this.deletedIds.has(id)) continue;
+
+        const chunk = this.documents.get(id);
+        if (!chunk) {
+          console.warn(`[MemoryGuardian] 找不到文檔 ID: ${id}`);
+          continue;
+        }
+
+        if (hasFilter && !matchesFilter(chunk, filter)) continue;
+
+        searchResults.push({ id, distance, chunk });
       }
 
-      searchResults.push({ id, distance, chunk });
+      if (searchResults.length >= wanted || fetchK >= total) {
+        return searchResults;
+      }
+
+      fetchK = Math.min(fetchK * 2, total);
     }
+  }
 
-    return searchResults;
+  /**
+   * BM25 詞法檢索
+   * @param terms 查詢詞（已分詞）
+   * @param k 返回的結果數量
+   * @param filter 元數據過濾條件
+   */
+  searchLexical(terms: string[], k: number = 5, filter?: SearchFilter): Array<LexicalMatch & { chunk: TextChunk }> {
+    const hasFilter = !isEmptyFilter(filter);
+    const matches = this.lexical.search(terms, k, (id) => {
+      const chunk = this.documents.get(id);
+      return !!chunk && (!hasFilter || matchesFilter(chunk, filter));
+    });
+    return matches.map(match => ({ ...match, chunk: this.documents.get(match.id)! }));
   }
 
   /**
@@ -155,8 +308,21 @@ export class FaissVectorStore {
     return this.documents.size;
   }
 
+  /**
+   * 獲取待回收的墓碑數量
+   */
+  getDeletedCount(): number {
+    return this.deletedIds.size;
+  }
+
   /**
    * 保存索引和元數據到磁盤
+   *
+   * 寫入順序保證任意時刻崩潰後，{當前, .bak} 兩組文件中至少有一對
+   * generation 和校驗和一致的快照：
+   * 1. 新快照寫入 .tmp 並 fsync
+   * 2. 當前文件輪換為 .bak
+   * 3. .tmp rename 為正式文件
    */
   async save(): Promise<void> {
     if (!this.index) {
@@ -169,38 +335,251 @@ export class FaissVectorStore {
       mkdirSync(dir, { recursive: true });
     }
 
-    // 保存 FAISS 索引
-    this.index.write(this.indexPath);
+    const generation = this.generation + 1;
 
-    // 保存元數據
-    const metadata = {
+    // 序列化 FAISS 索引
+    const indexBuffer = this.index.toBuffer();
+
+    // 序列化元數據
+    const payload = {
+      embeddingModel: this.embeddingModel,
+      documentPrefix: this.documentPrefix,
+      dimension: this.index.getDimension(),
       nextId: this.nextId,
       documents: Array.from(this.documents.entries()),
+      deletedIds: Array.from(this.deletedIds),
     };
-    writeFileSync(this.metaPath, JSON.stringify(metadata, null, 2), 'utf-8');
+    const metadata = {
+      version: META_VERSION,
+      generation,
+      indexChecksum: sha256(indexBuffer),
+      checksum: sha256(JSON.stringify(payload)),
+      ...payload,
+    };
+
+    const indexTmp = `${this.indexPath}.tmp`;
+    const metaTmp = `${this.metaPath}.tmp`;
+    writeFileSynced(indexTmp, indexBuffer);
+    writeFileSynced(metaTmp, JSON.stringify(metadata, null, 2));
+
+    // 保留上一個快照
+    if (existsSync(this.indexPath)) renameSync(this.indexPath, `${this.indexPath}.bak`);
+    if (existsSync(this.metaPath)) renameSync(this.metaPath, `${this.metaPath}.bak`);
 
+    renameSync(indexTmp, this.indexPath);
+    renameSync(metaTmp, this.metaPath);
+    fsyncDir(dir);
+
+    this.generation = generation;
     this.isDirty = false;
-    console.log(`[MemoryGuardian] 索引已保存: ${this.documents.size} 個文檔`);
+    console.log(`[MemoryGuardian] 索引已保存: ${this.documents.size} 個文檔 (generation ${generation})`);
   }
 
   /**
    * 從磁盤加載索引和元數據
+   * 在 {當前, .bak} 的索引/元數據組合中選取校驗通過且 generation 最高的一對
    */
   async load(): Promise<void> {
-    if (!existsSync(this.indexPath) || !existsSync(this.metaPath)) {
+    const indexCandidates = [this.indexPath, `${this.indexPath}.bak`].filter(p => existsSync(p));
+    const metaCandidates = [this.metaPath, `${this.metaPath}.bak`].filter(p => existsSync(p));
+
+    if (indexCandidates.length === 0 || metaCandidates.length === 0) {
       throw new Error('索引文件不存在');
     }
 
-    // 加載 FAISS 索引
-    this.index = IndexFlatIP.read(this.indexPath);
+    let best: { snapshot: LoadedSnapshot; primary: boolean } | null = null;
+    const failures: string[] = [];
+
+    for (const metaPath of metaCandidates) {
+      for (const indexPath of indexCandidates) {
+        try {
+          const snapshot = this.readSnapshot(indexPath, metaPath);
+          if (!best || snapshot.generation > best.snapshot.generation) {
+            best = {
+              snapshot,
+              primary: indexPath === this.indexPath && metaPath === this.metaPath,
+            };
+          }
+        } catch (error) {
+          failures.push(`${indexPath} + ${metaPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
 
-    // 加載元數據
-    const metaContent = readFileSync(this.metaPath, 'utf-8');
-    const metadata = JSON.parse(metaContent);
-    
-    this.nextId = metadata.nextId;
-    this.documents = new Map(metadata.documents);
-    this.isDirty = false;
+    if (!best) {
+      throw new Error(`沒有校驗通過的索引快照 (${failures.join('; ')})`);
+    }
+
+    const { snapshot } = best;
+    this.index = snapshot.index;
+    this.embeddingModel = snapshot.embeddingModel;
+    this.documentPrefix = snapshot.documentPrefix;
+    this.generation = snapshot.generation;
+    this.nextId = snapshot.nextId;
+    this.documents = new Map(snapshot.documents);
+    this.deletedIds = new Set(snapshot.deletedIds);
+    this.rebuildDocumentIndexes();
+
+    this.vectors = new Map();
+    const dimension = this.index.getDimension();
+    if (snapshot.vectors) {
+      for (const id of this.documents.keys()) {
+        this.vectors.set(id, snapshot.vectors.subarray(id * dimension, (id + 1) * dimension));
+      }
+    } else {
+      console.warn('[MemoryGuardian] 無法從索引文件取出已存向量，需要時將重新計算');
+    }
+
+    // 兼容舊版元數據：舊版刪除只移除了 documents 條目，
+    // 索引中沒有對應文檔的 ID 一律視為墓碑
+    const total = this.index.ntotal();
+    for (let id = 0; id < total; id++) {
+      if (!this.documents.has(id)) {
+        this.deletedIds.add(id);
+      }
+    }
+
+    this.recovery = best.primary ? 'none' : 'snapshot';
+    if (!best.primary) {
+      console.warn(`[MemoryGuardian] 最新索引快照校驗失敗，已回退到 generation ${snapshot.generation}`);
+      // 以恢復的快照覆蓋損壞文件
+      this.isDirty = true;
+      await this.save();
+    } else {
+      this.isDirty = false;
+    }
+  }
+
+  /**
+   * 讀取並校驗一對索引/元數據文件
+   */
+  private readSnapshot(indexPath: string, metaPath: string): LoadedSnapshot {
+    const metadata = JSON.parse(readFileSync(metaPath, 'utf-8'));
+    const indexBuffer = readFileSync(indexPath);
+
+    if ((metadata.version || 1) >= 2) {
+      const payload = {
+        embeddingModel: metadata.embeddingModel,
+        documentPrefix: metadata.documentPrefix,
+        dimension: metadata.dimension,
+        nextId: metadata.nextId,
+        documents: metadata.documents,
+        deletedIds: metadata.deletedIds,
+      };
+      if (sha256(JSON.stringify(payload)) !== metadata.checksum) {
+        throw new Error('元數據校驗和不匹配');
+      }
+      if (sha256(indexBuffer) !== metadata.indexChecksum) {
+        throw new Error(`索引文件與元數據 generation ${metadata.generation} 不匹配`);
+      }
+    }
+
+    const index = IndexFlatIP.fromBuffer(indexBuffer);
+
+    // 舊版元數據沒有校驗和，至少確認向量數與 ID 分配一致
+    if (index.ntotal() !== metadata.nextId) {
+      throw new Error(`索引向量數 ${index.ntotal()} 與 nextId ${metadata.nextId} 不一致`);
+    }
+
+    return {
+      index,
+      vectors: readFlatVectors(indexBuffer, index.ntotal(), index.getDimension()),
+      embeddingModel: metadata.embeddingModel || null,
+      documentPrefix: metadata.documentPrefix || '',
+      generation: metadata.generation || 0,
+      nextId: metadata.nextId,
+      documents: metadata.documents || [],
+      deletedIds: metadata.deletedIds || [],
+    };
+  }
+
+  /**
+   * 是否存在任何快照文件
+   */
+  private hasSnapshotFiles(): boolean {
+    return [this.indexPath, `${this.indexPath}.bak`, this.metaPath, `${this.metaPath}.bak`]
+      .some(p => existsSync(p));
+  }
+
+  /**
+   * 將無法恢復的快照文件改名隔離，保留現場以便排查
+   */
+  private quarantineSnapshotFiles(): void {
+    const suffix = `.corrupt-${Date.now()}`;
+    for (const path of [this.indexPath, `${this.indexPath}.bak`, this.metaPath, `${this.metaPath}.bak`]) {
+      try {
+        if (existsSync(path)) renameSync(path, `${path}${suffix}`);
+      } catch (error) {
+        console.warn(`[MemoryGuardian] 隔離損壞文件失敗: ${path}: ${error}`);
+      }
+    }
+    for (const path of [`${this.indexPath}.tmp`, `${this.metaPath}.tmp`]) {
+      if (existsSync(path)) unlinkSync(path);
+    }
+  }
+
+  /**
+   * 獲取加載時的恢復狀態
+   */
+  getRecoveryState(): RecoveryState {
+    return this.recovery;
+  }
+
+  /**
+   * 獲取索引向量所屬的 embedding 模型和維度
+   */
+  getEmbeddingInfo(): EmbeddingInfo {
+    return {
+      model: this.embeddingModel,
+      dimension: this.index ? this.index.getDimension() : this.dimension,
+      documentPrefix: this.documentPrefix,
+    };
+  }
+
+  /**
+   * 記錄索引所屬的 embedding 模型
+   * 用於為未記錄模型的舊版索引補上模型信息
+   */
+  setEmbeddingModel(model: string): void {
+    if (this.embeddingModel !== model) {
+      this.embeddingModel = model;
+      this.isDirty = true;
+    }
+  }
+
+  /**
+   * 以新模型產生的向量重建索引
+   * 用於 embedding 模型變更後的遷移，文檔重新編號為連續 ID
+   */
+  async rebuild(
+    info: { model: string; dimension: number; documentPrefix: string },
+    items: Array<{ chunk: TextChunk; embedding: Float32Array }>
+  ): Promise<void> {
+    const index = new IndexFlatIP(info.dimension);
+    const documents = new Map<number, TextChunk>();
+    const vectors = new Map<number, Float32Array>();
+
+    for (const { chunk, embedding } of items) {
+      if (embedding.length !== info.dimension) {
+        throw new Error(`向量維度錯誤: ${embedding.length}，期望 ${info.dimension}`);
+      }
+      index.add(Array.from(embedding));
+      vectors.set(documents.size, new Float32Array(embedding));
+      documents.set(documents.size, chunk);
+    }
+
+    this.index = index;
+    this.documents = documents;
+    this.vectors = vectors;
+    this.deletedIds.clear();
+    this.rebuildDocumentIndexes();
+    this.nextId = documents.size;
+    this.dimension = info.dimension;
+    this.embeddingModel = info.model;
+    this.documentPrefix = info.documentPrefix;
+    this.isDirty = true;
+
+    console.log(`[MemoryGuardian] 索引已按模型 ${info.model} 重建: ${documents.size} 個文檔，維度 ${info.dimension}`);
   }
 
   /**
@@ -216,8 +595,13 @@ export class FaissVectorStore {
    * 清空索引
    */
   async clear(): Promise<void> {
-    this.index = new IndexFlatIP(DIMENSION);
+    this.index = new IndexFlatIP(this.dimension);
     this.documents.clear();
+    this.deletedIds.clear();
+    this.chunkIds.clear();
+    this.lexical.clear();
+    this.sources.clear();
+    this.vectors.clear();
     this.nextId = 0;
     this.isDirty = true;
     console.log('[MemoryGuardian] FAISS 索引已清空');
@@ -238,17 +622,160 @@ export class FaissVectorStore {
   }
 
   /**
-   * 刪除文檔（標記刪除，實際不從 FAISS 移除）
-   * 注意：FAISS IndexFlatIP 不支持刪除，需要重建索引
+   * 根據 ID 獲取文檔的已存向量
+   */
+  getVector(id: number): Float32Array | undefined {
+    return this.vectors.get(id);
+  }
+
+  /**
+   * 根據切塊 ID 查找文檔 ID
+   */
+  getDocumentIdByChunkId(chunkId: string): number | undefined {
+    return this.chunkIds.get(chunkId);
+  }
+
+  /**
+   * 獲取同一來源的所有切塊，按起始偏移排序
+   */
+  getChunksBySource(sourcePath: string): Array<{ id: number; chunk: TextChunk }> {
+    const ids = this.sources.get(sourcePath);
+    if (!ids) {
+      return [];
+    }
+    return Array.from(ids, id => ({ id, chunk: this.documents.get(id)! }))
+      .sort((a, b) => a.chunk.offset - b.chunk.offset);
+  }
+
+  /**
+   * 將文檔加入切塊 ID、BM25 和來源索引
+   */
+  private indexDocument(id: number, chunk: TextChunk): void {
+    this.chunkIds.set(chunk.id, id);
+    this.lexical.add(id, getEmbeddingText(chunk));
+    let ids = this.sources.get(chunk.sourcePath);
+    if (!ids) {
+      ids = new Set();
+      this.sources.set(chunk.sourcePath, ids);
+    }
+    ids.add(id);
+  }
+
+  /**
+   * 從切塊 ID、BM25 和來源索引中移除文檔
+   */
+  private unindexDocument(id: number, chunk: TextChunk): void {
+    this.chunkIds.delete(chunk.id);
+    this.lexical.remove(id);
+    const ids = this.sources.get(chunk.sourcePath);
+    ids?.delete(id);
+    if (ids && ids.size === 0) {
+      this.sources.delete(chunk.sourcePath);
+    }
+  }
+
+  /**
+   * 由文檔重建切塊 ID、BM25 和來源索引
+   */
+  private rebuildDocumentIndexes(): void {
+    this.chunkIds = new Map();
+    this.lexical = new Bm25Index();
+    this.sources = new Map();
+    for (const [id, chunk] of this.documents) {
+      this.indexDocument(id, chunk);
+    }
+  }
+
+  /**
+   * 刪除文檔
+   * FAISS IndexFlatIP 的 ID 是位置序號，直接移除會打亂後續 ID，
+   * 因此先記錄墓碑，由 compact() 統一回收
    */
   async deleteDocument(id: number): Promise<boolean> {
-    if (this.documents.has(id)) {
+    const chunk = this.documents.get(id);
+    if (chunk) {
       this.documents.delete(id);
+      this.vectors.delete(id);
+      this.deletedIds.add(id);
+      this.unindexDocument(id, chunk);
       this.isDirty = true;
       return true;
     }
     return false;
   }
+
+  /**
+   * 刪除所有符合條件的文檔
+   * @returns 刪除的文檔數量
+   */
+  async deleteWhere(predicate: (chunk: TextChunk) => boolean): Promise<number> {
+    let count = 0;
+    for (const [id, chunk] of this.documents) {
+      if (predicate(chunk)) {
+        this.documents.delete(id);
+        this.vectors.delete(id);
+        this.deletedIds.add(id);
+        this.unindexDocument(id, chunk);
+        count++;
+      }
+    }
+    if (count > 0) {
+      this.isDirty = true;
+    }
+    return count;
+  }
+
+  /**
+   * 壓縮索引
+   * 從 FAISS 中移除所有墓碑向量，並將剩餘文檔重新編號為連續 ID
+   * @returns 舊 ID 到新 ID 的映射
+   */
+  async compact(): Promise<Map<number, number>> {
+    if (!this.index) {
+      throw new Error('FAISS 索引未初始化');
+    }
+
+    const remap = new Map<number, number>();
+
+    if (this.deletedIds.size === 0) {
+      for (const id of this.documents.keys()) {
+        remap.set(id, id);
+      }
+      return remap;
+    }
+
+    const removed = Array.from(this.deletedIds).sort((a, b) => a - b);
+    const before = this.index.ntotal();
+
+    // IndexFlat 移除向量後會將後續向量前移，ID 保持連續
+    this.index.removeIds(removed);
+
+    const liveIds = Array.from(this.documents.keys()).sort((a, b) => a - b);
+    if (this.index.ntotal() !== liveIds.length) {
+      throw new Error(`索引壓縮後向量數 ${this.index.ntotal()} 與文檔數 ${liveIds.length} 不一致`);
+    }
+
+    const documents = new Map<number, TextChunk>();
+    const vectors = new Map<number, Float32Array>();
+    liveIds.forEach((oldId, newId) => {
+      documents.set(newId, this.documents.get(oldId)!);
+      const vector = this.vectors.get(oldId);
+      if (vector) {
+        vectors.set(newId, vector);
+      }
+      remap.set(oldId, newId);
+    });
+
+    this.documents = documents;
+    this.vectors = vectors;
+    this.deletedIds.clear();
+    this.rebuildDocumentIndexes();
+    this.nextId = liveIds.length;
+    this.isDirty = true;
+
+    console.log(`[MemoryGuardian] 索引已壓縮: 回收 ${before - liveIds.length} 個向量，剩餘 ${liveIds.length} 個文檔`);
+    return remap;
+  }
 }
 
 // 全局單例
@@ -257,7 +784,7 @@ let globalStore: FaissVectorStore | null = null;
 /**
  * 獲取全局 FAISS 存儲實例
  */
-export async function getVectorStore(options?: { indexPath?: string; metaPath?: string }): Promise<FaissVectorStore> {
+export async function getVectorStore(options: VectorStoreOptions): Promise<FaissVectorStore> {
   if (!globalStore) {
     globalStore = new FaissVectorStore(options);
     await globalStore.initialize();
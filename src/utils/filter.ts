@@ -0,0 +1,105 @@
+/**
+ * 搜索過濾模組
+ * 按 Session、來源路徑、時間窗口和切塊類型過濾文本切塊
+ */
+
+import type { TextChunk, SearchFilter } from '../types.js';
+
+// 編譯後的 glob 緩存
+const globCache = new Map<string, RegExp>();
+
+/**
+ * 將 glob 模式轉換為正則表達式
+ * - `**` 匹配任意層級路徑
+ * - `*` 匹配單層路徑中的任意字符
+ * - `?` 匹配單個非分隔符字符
+ * 非絕對路徑的模式可匹配路徑的任意後綴（以 / 為界）
+ */
+export function globToRegExp(glob: string): RegExp {
+  const cached = globCache.get(glob);
+  if (cached) {
+    return cached;
+  }
+
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` 可匹配零層目錄
+        if (glob[i + 2] === '/') {
+          pattern += '(?:.*/)?';
+          i += 2;
+        } else {
+          pattern += '.*';
+          i += 1;
+        }
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (ch === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const prefix = glob.startsWith('/') ? '^' : '(?:^|/)';
+  const regex = new RegExp(`${prefix}${pattern}$`);
+  globCache.set(glob, regex);
+  return regex;
+}
+
+/**
+ * 判斷過濾器是否包含任何條件
+ */
+export function isEmptyFilter(filter?: SearchFilter): boolean {
+  if (!filter) {
+    return true;
+  }
+  return filter.sessionKey === undefined
+    && filter.sourcePath === undefined
+    && filter.since === undefined
+    && filter.until === undefined
+    && filter.type === undefined;
+}
+
+/**
+ * 判斷切塊是否符合過濾條件
+ */
+export function matchesFilter(chunk: TextChunk, filter?: SearchFilter): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  if (filter.sessionKey !== undefined) {
+    const keys = Array.isArray(filter.sessionKey) ? filter.sessionKey : [filter.sessionKey];
+    if (!chunk.sessionKey || !keys.includes(chunk.sessionKey)) {
+      return false;
+    }
+  }
+
+  if (filter.sourcePath !== undefined) {
+    const sourcePath = chunk.sourcePath.replace(/\\/g, '/');
+    if (!globToRegExp(filter.sourcePath).test(sourcePath)) {
+      return false;
+    }
+  }
+
+  if (filter.since !== undefined && chunk.timestamp < filter.since) {
+    return false;
+  }
+
+  if (filter.until !== undefined && chunk.timestamp > filter.until) {
+    return false;
+  }
+
+  if (filter.type !== undefined) {
+    const types: string[] = Array.isArray(filter.type) ? filter.type : [filter.type];
+    if (!types.includes(chunk.metadata?.type as string)) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,113 @@
+/**
+ * 索引清單模組
+ * 記錄每個已索引源文件的大小、修改時間、內容哈希和切塊 ID
+ * 用於增量索引：未變更的文件跳過，變更或刪除的文件替換/移除舊切塊
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync, existsSync } from 'fs';
+import { writeFileAtomic } from './atomic-file.js';
+
+export interface ManifestEntry {
+  /** 源文件路徑（與 TextChunk.sourcePath 一致） */
+  path: string;
+  /** 文件大小（字節） */
+  size: number;
+  /** 最後修改時間（毫秒） */
+  mtimeMs: number;
+  /** 內容 SHA-256 哈希 */
+  hash: string;
+  /** 該文件產生的切塊 ID */
+  chunkIds: string[];
+}
+
+/**
+ * 計算文本內容哈希
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+/**
+ * 索引清單類
+ */
+export class IndexManifest {
+  private entries: Map<string, ManifestEntry> = new Map();
+  private manifestPath: string;
+  private isDirty: boolean = false;
+
+  constructor(manifestPath: string) {
+    this.manifestPath = manifestPath;
+  }
+
+  /**
+   * 從磁盤加載清單，文件不存在或損壞時從空清單開始
+   */
+  load(): void {
+    if (!existsSync(this.manifestPath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.manifestPath, 'utf-8'));
+      this.entries = new Map((data.files || []).map((entry: ManifestEntry) => [entry.path, entry]));
+    } catch (error) {
+      console.warn(`[MemoryGuardian] 索引清單損壞，將重新建立: ${error}`);
+      this.entries.clear();
+    }
+    this.isDirty = false;
+  }
+
+  /**
+   * 保存清單到磁盤
+   */
+  save(): void {
+    const data = {
+      version: 1,
+      files: Array.from(this.entries.values()),
+    };
+    writeFileAtomic(this.manifestPath, JSON.stringify(data, null, 2));
+    this.isDirty = false;
+  }
+
+  /**
+   * 如果有未保存的更改，自動保存
+   */
+  flush(): void {
+    if (this.isDirty) {
+      this.save();
+    }
+  }
+
+  get(path: string): ManifestEntry | undefined {
+    return this.entries.get(path);
+  }
+
+  set(entry: ManifestEntry): void {
+    this.entries.set(entry.path, entry);
+    this.isDirty = true;
+  }
+
+  delete(path: string): boolean {
+    const deleted = this.entries.delete(path);
+    if (deleted) {
+      this.isDirty = true;
+    }
+    return deleted;
+  }
+
+  /**
+   * 獲取所有已記錄的文件路徑
+   */
+  paths(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * 清空清單
+   */
+  clear(): void {
+    this.entries.clear();
+    this.isDirty = true;
+  }
+}
@@ -9,17 +9,24 @@ const DEFAULT_ENDPOINT = 'http://localhost:11434/api/generate';
 const DEFAULT_MODEL = 'qwen2.5:7b';
 const TIMEOUT_MS = 60000;  // 60 秒超時
 
-interface LlmConfig {
+export interface LlmConfig {
   endpoint: string;
   model: string;
 }
 
 /**
- * 調用本地 LLM 生成摘要
+ * 調用本地 LLM
+ * @param options.timeoutMs 請求超時，默認 60 秒
+ * @param options.maxTokens 最大輸出 token 數
  */
-async function callLocalLlm(prompt: string, config: LlmConfig): Promise<string> {
+export async function callLocalLlm(
+  prompt: string,
+  config: LlmConfig,
+  options: { timeoutMs?: number; maxTokens?: number; temperature?: number } = {}
+): Promise<string> {
+  const timeoutMs = options.timeoutMs ?? TIMEOUT_MS;
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
     const response = await fetch(config.endpoint, {
@@ -32,9 +39,9 @@ async function callLocalLlm(prompt: string, config: LlmConfig): Promise<string>
         prompt,
         stream: false,
         options: {
-          temperature: 0.3,     // 低溫度以獲得更一致的摘要
+          temperature: options.temperature ?? 0.3,     // 低溫度以獲得更一致的摘要
           top_p: 0.9,
-          num_predict: 1024,    // 限制輸出長度
+          num_predict: options.maxTokens ?? 1024,      // 限制輸出長度
         },
       }),
       signal: controller.signal,
@@ -52,7 +59,7 @@ async function callLocalLlm(prompt: string, config: LlmConfig): Promise<string>
     clearTimeout(timeoutId);
     
     if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error(`LLM 請求超時 (${TIMEOUT_MS}ms)`);
+      throw new Error(`LLM 請求超時 (${timeoutMs}ms)`);
     }
     throw error;
   }
@@ -182,6 +189,32 @@ ${text}
   }
 }
 
+/**
+ * 生成假設答案（用於 HyDE 檢索）
+ * 答案的措辭更接近記憶中保存的結論和決策，向量化後比問題本身更容易匹配
+ * @param timeoutMs 請求超時
+ */
+export async function generateHypotheticalAnswer(
+  question: string,
+  config: Partial<LlmConfig> = {},
+  timeoutMs: number = TIMEOUT_MS
+): Promise<string> {
+  const llmConfig: LlmConfig = {
+    endpoint: config.endpoint || DEFAULT_ENDPOINT,
+    model: config.model || DEFAULT_MODEL,
+  };
+
+  const prompt = `請針對以下問題寫一段簡短的答案（不超過100字），像是從工作筆記或會議記錄中摘錄的結論。
+即使不確定也直接給出一個合理的答案，不要說明你不知道。
+
+問題：${question}
+
+只輸出答案，不要添加任何解釋。`;
+
+  const answer = await callLocalLlm(prompt, llmConfig, { timeoutMs, maxTokens: 200 });
+  return answer.trim();
+}
+
 /**
  * 檢查本地 LLM 服務是否可用
  */
@@ -0,0 +1,84 @@
+/**
+ * 記憶評分模組
+ * 在語義相似度之外結合時間衰減和重要度，讓近期的結論優先於過時的記錄
+ */
+
+import type { MemoryScore, SearchResult, TextChunk } from '../types.js';
+import { normalizeFusedScore } from './rank-fusion.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MemoryScoringOptions {
+  /** 時間衰減半衰期（天），0 表示不衰減 */
+  halfLifeDays: number;
+  /** 時效在評分中的權重（0-1） */
+  recencyWeight: number;
+  /** 章節標題關鍵詞到重要度權重的映射 */
+  importanceWeights: Record<string, number>;
+  /** 評分基準時間，默認為當前時間 */
+  now?: number;
+}
+
+/**
+ * 按半衰期計算時效（0-1）
+ * 未來時間的切塊視為最新
+ */
+export function recencyDecay(timestamp: number, halfLifeDays: number, now: number = Date.now()): number {
+  if (halfLifeDays <= 0 || !Number.isFinite(timestamp)) {
+    return 1;
+  }
+  const ageDays = Math.max(0, now - timestamp) / DAY_MS;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * 獲取切塊的重要度權重
+ * 優先使用元數據中的 importance；否則按章節標題路徑匹配配置的關鍵詞（不區分大小寫，取最大權重），默認 1
+ */
+export function chunkImportance(chunk: TextChunk, weights: Record<string, number>): number {
+  const explicit = chunk.metadata?.importance;
+  if (typeof explicit === 'number' && Number.isFinite(explicit)) {
+    return explicit;
+  }
+
+  const headingPath = chunk.metadata?.headingPath;
+  if (typeof headingPath !== 'string' || !headingPath) {
+    return 1;
+  }
+
+  const heading = headingPath.toLowerCase();
+  let importance = 1;
+  for (const [keyword, weight] of Object.entries(weights)) {
+    if (heading.includes(keyword.toLowerCase())) {
+      importance = Math.max(importance, weight);
+    }
+  }
+  return importance;
+}
+
+/**
+ * 檢索階段的相關度（0-1）
+ * 混合檢索的結果使用歸一化的融合分數，保留詞法命中的排名；僅向量檢索時使用 1 - distance
+ */
+export function retrievalRelevance(result: SearchResult): number {
+  return result.score !== undefined ? normalizeFusedScore(result.score) : 1 - result.distance;
+}
+
+/**
+ * 計算檢索結果的綜合評分
+ * final = similarity × ((1 − recencyWeight) + recencyWeight × recency) × importance
+ * 相似度優先使用重排序分數，否則使用檢索階段的相關度，時效和重要度在其排序基礎上調整
+ */
+export function scoreMemory(result: SearchResult, options: MemoryScoringOptions): MemoryScore {
+  const similarity = result.rerankScore ?? retrievalRelevance(result);
+  const recency = recencyDecay(result.chunk.timestamp, options.halfLifeDays, options.now);
+  const importance = chunkImportance(result.chunk, options.importanceWeights);
+  const recencyWeight = Math.min(1, Math.max(0, options.recencyWeight));
+
+  return {
+    similarity,
+    recency,
+    importance,
+    final: similarity * ((1 - recencyWeight) + recencyWeight * recency) * importance,
+  };
+}
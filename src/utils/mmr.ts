@@ -0,0 +1,47 @@
+/**
+ * 最大邊際相關（Maximal Marginal Relevance）選擇
+ * 逐個選出與查詢相關、且與已選結果差異最大的候選，避免重疊切塊和近似重複的記錄佔滿結果
+ */
+
+import { cosineSimilarity } from './embeddings.js';
+
+/**
+ * 按 MMR 選出 k 個候選
+ * score(d) = λ · relevance(d) − (1 − λ) · max sim(d, 已選)
+ * @param relevance 各候選與查詢的相關度（越大越相關）
+ * @param embeddings 各候選的 L2 正規化向量，順序與 relevance 一致
+ * @param lambda 相關度權重（0-1），1 時等同按相關度排序
+ * @returns 選中候選的下標，按選擇順序排列
+ */
+export function maximalMarginalRelevance(
+  relevance: number[],
+  embeddings: Float32Array[],
+  k: number,
+  lambda: number
+): number[] {
+  const selected: number[] = [];
+  const remaining = new Set(relevance.map((_, i) => i));
+  // 每個候選與已選結果的最大相似度，選中新結果後增量更新
+  const maxSimilarity = new Array<number>(relevance.length).fill(0);
+
+  while (selected.length < k && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+
+    for (const i of remaining) {
+      const score = lambda * relevance[i] - (selected.length > 0 ? (1 - lambda) * maxSimilarity[i] : 0);
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+
+    selected.push(best);
+    remaining.delete(best);
+    for (const i of remaining) {
+      maxSimilarity[i] = Math.max(maxSimilarity[i], cosineSimilarity(embeddings[i], embeddings[best]));
+    }
+  }
+
+  return selected;
+}
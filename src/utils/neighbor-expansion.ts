@@ -0,0 +1,181 @@
+/**
+ * 相鄰切塊擴展模組
+ * 命中的切塊常缺少前文的鋪墊，按來源順序向兩側擴展相鄰切塊，
+ * 重疊或相接的擴展區間合併為一段連續摘錄
+ */
+
+import type { SearchResult, TextChunk } from '../types.js';
+import { estimateTokens } from './chunk.js';
+
+export interface NeighborExpansionOptions {
+  /** 每側最多擴展的切塊數 */
+  maxChunks: number;
+  /** 擴展後每段摘錄的 token 上限 */
+  maxTokens: number;
+}
+
+// 一個命中切塊的擴展區間（下標指向同來源按偏移排序的切塊列表）
+interface ExpansionSpan {
+  result: SearchResult;
+  /** 在結果中的名次 */
+  rank: number;
+  chunks: TextChunk[];
+  /** 命中切塊的下標 */
+  hit: number;
+  start: number;
+  end: number;
+}
+
+function endOf(chunk: TextChunk): number {
+  return chunk.endOffset ?? chunk.offset + chunk.text.length;
+}
+
+/**
+ * 按源文件順序拼接切塊
+ * 切塊即源文件 [offset, endOffset) 的內容，重疊部分只保留一次，不相接時以空行分隔
+ */
+export function mergeChunkTexts(chunks: TextChunk[]): string {
+  let text = '';
+  let end = -1;
+
+  for (const chunk of chunks) {
+    if (!text) {
+      text = chunk.text;
+    } else if (chunk.offset < end) {
+      text += chunk.text.slice(Math.min(chunk.text.length, end - chunk.offset));
+    } else {
+      text += '\n\n' + chunk.text;
+    }
+    end = Math.max(end, endOf(chunk));
+  }
+
+  return text;
+}
+
+function fitsTokens(chunks: TextChunk[], start: number, end: number, maxTokens: number): boolean {
+  return estimateTokens(mergeChunkTexts(chunks.slice(start, end + 1))) <= maxTokens;
+}
+
+/**
+ * 在 token 上限內向兩側擴展命中切塊，前後交替，優先補全前文
+ */
+function expandSpan(span: ExpansionSpan, options: NeighborExpansionOptions): void {
+  const fits = (start: number, end: number) => fitsTokens(span.chunks, start, end, options.maxTokens);
+
+  let before = 0;
+  let after = 0;
+  let growBefore = true;
+  let growAfter = true;
+
+  while (growBefore || growAfter) {
+    if (growBefore) {
+      if (before < options.maxChunks && span.start > 0 && fits(span.start - 1, span.end)) {
+        span.start--;
+        before++;
+      } else {
+        growBefore = false;
+      }
+    }
+    if (growAfter) {
+      if (after < options.maxChunks && span.end < span.chunks.length - 1 && fits(span.start, span.end + 1)) {
+        span.end++;
+        after++;
+      } else {
+        growAfter = false;
+      }
+    }
+  }
+}
+
+/**
+ * 用同來源的相鄰切塊擴展檢索結果
+ * 同一來源中重疊或相接的擴展區間合併為一條結果，保留名次較高的命中的分數和位置；
+ * 合併後超出 token 上限時不合併，重疊部分只保留在前一段中
+ * @param getSourceChunks 獲取某來源的所有切塊（按偏移排序）
+ */
+export function expandWithNeighbors(
+  results: SearchResult[],
+  getSourceChunks: (sourcePath: string) => TextChunk[],
+  options: NeighborExpansionOptions
+): SearchResult[] {
+  if (options.maxChunks <= 0 || results.length === 0) {
+    return results;
+  }
+
+  const sourceChunks = new Map<string, TextChunk[]>();
+  const spansBySource = new Map<string, ExpansionSpan[]>();
+  const unexpanded: ExpansionSpan[] = [];
+
+  results.forEach((result, rank) => {
+    const { sourcePath } = result.chunk;
+    let chunks = sourceChunks.get(sourcePath);
+    if (!chunks) {
+      chunks = getSourceChunks(sourcePath);
+      sourceChunks.set(sourcePath, chunks);
+    }
+
+    const index = chunks.findIndex(chunk => chunk.id === result.chunk.id);
+    if (index < 0) {
+      unexpanded.push({ result, rank, chunks: [result.chunk], hit: 0, start: 0, end: 0 });
+      return;
+    }
+
+    const span: ExpansionSpan = { result, rank, chunks, hit: index, start: index, end: index };
+    expandSpan(span, options);
+    spansBySource.set(sourcePath, [...(spansBySource.get(sourcePath) || []), span]);
+  });
+
+  // 合併同一來源中重疊或相接的區間
+  const merged: ExpansionSpan[] = [...unexpanded];
+  for (const spans of spansBySource.values()) {
+    spans.sort((a, b) => a.start - b.start);
+    let current = spans[0];
+    for (const span of spans.slice(1)) {
+      if (span.start > current.end + 1) {
+        merged.push(current);
+        current = span;
+        continue;
+      }
+
+      const best = span.rank < current.rank ? span : current;
+      const end = Math.max(current.end, span.end);
+      if (fitsTokens(current.chunks, current.start, end, options.maxTokens)) {
+        current = { ...best, start: current.start, end };
+      } else if (span.hit <= current.end) {
+        // 命中切塊已在前一段中，不再延伸
+        current = { ...best, start: current.start, end: current.end };
+      } else {
+        merged.push(current);
+        current = { ...span, start: current.end + 1 };
+      }
+    }
+    merged.push(current);
+  }
+
+  return merged
+    .sort((a, b) => a.rank - b.rank)
+    .map(span => {
+      const chunks = span.chunks.slice(span.start, span.end + 1);
+      if (chunks.length <= 1) {
+        return span.result;
+      }
+
+      const first = chunks[0];
+      const last = chunks[chunks.length - 1];
+      return {
+        ...span.result,
+        chunk: {
+          ...span.result.chunk,
+          text: mergeChunkTexts(chunks),
+          offset: first.offset,
+          endOffset: endOf(last),
+          startLine: first.startLine,
+          endLine: last.endLine,
+          metadata: {
+            ...span.result.chunk.metadata,
+            expandedChunkIds: chunks.map(chunk => chunk.id),
+          },
+        },
+      };
+    });
+}
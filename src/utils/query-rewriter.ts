@@ -0,0 +1,144 @@
+/**
+ * 檢索查詢構建模組
+ * 追問（如「第二個方案呢？」「再做一次」）單獨向量化時缺少指代對象，
+ * 此模組結合前幾輪對話構建檢索查詢：拼接前幾輪的用戶消息，或用本地 LLM 改寫為獨立問題（超時或失敗時回退到原始消息）
+ */
+
+import { callLocalLlm, type LlmConfig } from './llm-summarizer.js';
+
+// 歷史消息在混合查詢和改寫提示中的最大長度
+const HISTORY_MESSAGE_MAX_CHARS = 300;
+// 改寫結果的最大長度，超出時視為 LLM 輸出異常
+const REWRITE_MAX_CHARS = 500;
+
+export interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+export interface QueryConstructionOptions {
+  /** 結合的前幾輪對話數量，0 表示只使用當前消息 */
+  contextTurns: number;
+  /** 是否使用本地 LLM 改寫查詢 */
+  rewrite: boolean;
+  /** 改寫的時間預算（毫秒） */
+  timeoutMs: number;
+  llm: LlmConfig;
+}
+
+export interface ConstructedQuery {
+  /** 原始用戶消息 */
+  original: string;
+  /** 用於檢索的查詢 */
+  query: string;
+  /** raw：原始消息；blended：拼接前幾輪對話；rewritten：LLM 改寫 */
+  method: 'raw' | 'blended' | 'rewritten';
+  /** 構建耗時（毫秒） */
+  elapsedMs: number;
+}
+
+/**
+ * 取當前消息之前的最近幾輪對話
+ * 一輪從用戶消息開始，包含其後的回覆
+ */
+export function recentTurns(history: ChatMessage[], turns: number): ChatMessage[] {
+  if (turns <= 0) {
+    return [];
+  }
+
+  let start = history.length;
+  let seen = 0;
+  for (let i = history.length - 1; i >= 0 && seen < turns; i--) {
+    if (history[i].role === 'user') {
+      seen++;
+      start = i;
+    }
+  }
+  return history.slice(start).filter(msg => msg.content.trim());
+}
+
+function clip(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > HISTORY_MESSAGE_MAX_CHARS ? trimmed.slice(0, HISTORY_MESSAGE_MAX_CHARS) + '…' : trimmed;
+}
+
+/**
+ * 將前幾輪的用戶消息拼接在當前消息之前
+ * 只取用戶消息，避免助手的長篇回覆稀釋查詢
+ */
+export function blendQuery(message: string, turns: ChatMessage[]): string {
+  const previous = turns.filter(msg => msg.role === 'user').map(msg => clip(msg.content));
+  return [...previous, message.trim()].join('\n');
+}
+
+/**
+ * 用本地 LLM 將追問改寫為可獨立理解的檢索問題
+ */
+export async function rewriteQuery(
+  message: string,
+  turns: ChatMessage[],
+  llm: LlmConfig,
+  timeoutMs: number
+): Promise<string> {
+  const conversation = turns
+    .map(msg => `[${msg.role === 'user' ? 'User' : 'Assistant'}]: ${clip(msg.content)}`)
+    .join('\n');
+
+  const prompt = `根據以下對話，將用戶的最新消息改寫為一個可獨立理解的檢索問題，補全其中的指代和省略。
+
+<conversation>
+${conversation}
+</conversation>
+
+<latest_message>
+${message.trim()}
+</latest_message>
+
+規則：
+1. 只輸出改寫後的問題，不要添加任何解釋
+2. 保留原消息中的專有名詞、標識符和語言
+3. 如果最新消息已可獨立理解，原樣輸出`;
+
+  const response = await callLocalLlm(prompt, llm, { timeoutMs, maxTokens: 128, temperature: 0 });
+  const rewritten = response.trim().replace(/^["'「]|["'」]$/g, '').trim();
+
+  if (!rewritten || rewritten.length > REWRITE_MAX_CHARS) {
+    throw new Error('改寫結果為空或過長');
+  }
+  return rewritten;
+}
+
+/**
+ * 構建檢索查詢
+ * 啟用改寫時用 LLM 改寫，失敗或超時時回退到原始消息；未啟用時拼接前幾輪的用戶消息；沒有歷史時使用原始消息
+ * @param history 當前消息之前的對話（按時間順序）
+ */
+export async function constructQuery(
+  message: string,
+  history: ChatMessage[],
+  options: QueryConstructionOptions
+): Promise<ConstructedQuery> {
+  const startTime = Date.now();
+  const turns = recentTurns(history, options.contextTurns);
+
+  if (turns.length === 0) {
+    return { original: message, query: message, method: 'raw', elapsedMs: 0 };
+  }
+
+  if (options.rewrite) {
+    try {
+      const query = await rewriteQuery(message, turns, options.llm, options.timeoutMs);
+      return { original: message, query, method: 'rewritten', elapsedMs: Date.now() - startTime };
+    } catch (error) {
+      console.warn(`[QueryRewriter] 查詢改寫失敗，回退到原始消息: ${error instanceof Error ? error.message : String(error)}`);
+      return { original: message, query: message, method: 'raw', elapsedMs: Date.now() - startTime };
+    }
+  }
+
+  return {
+    original: message,
+    query: blendQuery(message, turns),
+    method: 'blended',
+    elapsedMs: Date.now() - startTime,
+  };
+}
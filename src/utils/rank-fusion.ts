@@ -0,0 +1,38 @@
+/**
+ * 排序融合
+ * 以倒數排名融合（Reciprocal Rank Fusion）合併多路檢索結果，只依賴名次，不需要統一各路分數的尺度
+ */
+
+// RRF 平滑常數，抑制頭部名次的權重差距
+export const RRF_K = 60;
+
+/**
+ * 加權倒數排名融合
+ * score(d) = Σ weight / (RRF_K + rank)，rank 從 1 開始
+ * @param lists 各路檢索結果（按相關度排序的文檔 ID）及其權重
+ * @returns 按融合分數降序排列的文檔 ID
+ */
+export function reciprocalRankFusion(
+  lists: Array<{ ids: number[]; weight: number }>,
+  k: number = RRF_K
+): Array<{ id: number; score: number }> {
+  const scores = new Map<number, number>();
+
+  for (const { ids, weight } of lists) {
+    if (weight <= 0) continue;
+    ids.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + weight / (k + index + 1));
+    });
+  }
+
+  return Array.from(scores, ([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * 將融合分數歸一化到 0-1
+ * 權重之和為 1 時分數上限為 1 / (RRF_K + 1)（在每一路都排第一），按此上限縮放
+ */
+export function normalizeFusedScore(score: number, k: number = RRF_K): number {
+  return Math.min(1, score * (k + 1));
+}
@@ -0,0 +1,180 @@
+/**
+ * Cross-encoder 重排序模組
+ * 通過 @xenova/transformers 在本地運行 cross-encoder（默認 ms-marco-MiniLM-L-6-v2），
+ * 將查詢與候選文本成對輸入模型打分，比向量內積更能區分真正相關的記憶
+ */
+
+export const DEFAULT_RERANK_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+// 每次推理的候選數量，批次之間檢查時間預算
+const RERANK_BATCH_SIZE = 16;
+
+/**
+ * 本地 cross-encoder
+ */
+export class CrossEncoderReranker {
+  readonly model: string;
+  private tokenizer: any = null;
+  private classifier: any = null;
+  private quantized: boolean;
+
+  constructor(options: { model: string; quantized?: boolean }) {
+    this.model = options.model;
+    this.quantized = options.quantized ?? true;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.classifier) {
+      return;
+    }
+
+    const { AutoTokenizer, AutoModelForSequenceClassification } = await import('@xenova/transformers');
+    this.tokenizer = await AutoTokenizer.from_pretrained(this.model);
+    this.classifier = await AutoModelForSequenceClassification.from_pretrained(this.model, {
+      quantized: this.quantized,
+    });
+  }
+
+  /**
+   * 計算查詢與每個候選文本的相關度（0-1，越大越相關），順序與輸入一致
+   * @param deadline 超過此時間戳時放棄剩餘批次並返回 null
+   */
+  async score(query: string, texts: string[], deadline: number = Infinity): Promise<number[] | null> {
+    if (!this.classifier) {
+      throw new Error('Rerank 模型未初始化');
+    }
+
+    const scores: number[] = [];
+    for (let i = 0; i < texts.length; i += RERANK_BATCH_SIZE) {
+      if (Date.now() > deadline) {
+        return null;
+      }
+
+      const batch = texts.slice(i, i + RERANK_BATCH_SIZE);
+      const inputs = this.tokenizer(new Array(batch.length).fill(query), {
+        text_pair: batch,
+        padding: true,
+        truncation: true,
+      });
+      const { logits } = await this.classifier(inputs);
+
+      // 輸出形狀為 [batch, labels]；單輸出模型的 logit 即相關度，多分類時取最後一類（相關）
+      const data = logits.data as Float32Array;
+      const labels = logits.dims[logits.dims.length - 1];
+      for (let row = 0; row < batch.length; row++) {
+        scores.push(sigmoid(data[row * labels + labels - 1]));
+      }
+    }
+
+    return Date.now() > deadline ? null : scores;
+  }
+
+  async dispose(): Promise<void> {
+    if (this.classifier && typeof this.classifier.dispose === 'function') {
+      await this.classifier.dispose();
+    }
+    this.classifier = null;
+    this.tokenizer = null;
+  }
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+// 當前使用的重排序模型；加載完成後才用於打分
+let activeReranker: CrossEncoderReranker | null = null;
+let readyReranker: CrossEncoderReranker | null = null;
+let initPromise: Promise<CrossEncoderReranker> | null = null;
+
+/**
+ * 初始化重排序模型
+ * 使用 singleton 模式避免重複加載模型
+ */
+export async function initReranker(model: string = DEFAULT_RERANK_MODEL): Promise<CrossEncoderReranker> {
+  if (activeReranker?.model === model && initPromise) {
+    return initPromise;
+  }
+
+  if (activeReranker) {
+    await disposeReranker();
+  }
+
+  const target = new CrossEncoderReranker({ model });
+  activeReranker = target;
+
+  initPromise = (async () => {
+    console.log(`[Reranker] 正在加載 rerank 模型: ${model}`);
+    const startTime = Date.now();
+
+    try {
+      await target.initialize();
+      console.log(`[Reranker] Rerank 模型加載完成，耗時 ${Date.now() - startTime}ms`);
+      if (activeReranker === target) {
+        readyReranker = target;
+      }
+      return target;
+    } catch (error) {
+      if (activeReranker === target) {
+        initPromise = null;
+        activeReranker = null;
+      }
+      throw new Error(`加載 rerank 模型失敗: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  })();
+
+  return initPromise;
+}
+
+/**
+ * 在時間預算內為候選文本打分
+ * 模型尚未加載完成或超出預算時返回 null，由調用方回退到原有排序；
+ * 模型未加載時在後台開始加載
+ */
+export async function rerank(
+  query: string,
+  texts: string[],
+  options: { model?: string; timeoutMs?: number } = {}
+): Promise<number[] | null> {
+  const model = options.model || DEFAULT_RERANK_MODEL;
+  const reranker = readyReranker;
+  if (!reranker || reranker.model !== model) {
+    if (activeReranker?.model !== model) {
+      initReranker(model).catch(error => console.error('[Reranker]', error));
+    }
+    return null;
+  }
+
+  const { timeoutMs } = options;
+  if (timeoutMs === undefined) {
+    return reranker.score(query, texts);
+  }
+
+  // 超時後剩餘批次在下一個批次邊界停止；避免超時後的錯誤成為未處理的 rejection
+  const scoring = reranker.score(query, texts, Date.now() + timeoutMs);
+  scoring.catch(() => undefined);
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([scoring, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 釋放重排序模型
+ */
+export async function disposeReranker(): Promise<void> {
+  const reranker = activeReranker;
+  activeReranker = null;
+  readyReranker = null;
+  initPromise = null;
+  if (reranker) {
+    await reranker.dispose();
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * 檢索分詞模組
+ * 供 BM25 詞法索引使用：拉丁文按詞切分並保留標識符（錯誤碼、工單號等），
+ * CJK 文本沒有空格分詞，按相鄰二字切分（單字詞保留單字）
+ */
+
+// CJK 統一表意文字、日文假名、韓文音節
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]+/g;
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+// 詞或複合標識符，如 ERR_CONN_RESET、PROJ-1234、v1.2.3、src/index.ts
+const WORD = /[\p{L}\p{N}_]+(?:[-.:/#][\p{L}\p{N}_]+)*/gu;
+const IDENTIFIER_SEPARATOR = /[-.:/#_]/;
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been',
+  'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would',
+  'could', 'should', 'may', 'might', 'can', 'must',
+  '的', '了', '是', '在', '有', '和', '與', '或', '但',
+  '這', '那', '我', '你', '他', '她', '它', '們',
+]);
+
+/**
+ * 將文本切分為檢索詞（小寫）
+ * 複合標識符同時產生整體和各部分，CJK 連續文本產生相鄰二字詞
+ */
+export function tokenizeForSearch(text: string): string[] {
+  // CJK 與拉丁字符相鄰時（如「API設計」）先分開
+  const spaced = text.toLowerCase().replace(CJK_RUN, run => ` ${run} `);
+  const tokens: string[] = [];
+
+  for (const part of spaced.split(/\s+/)) {
+    if (!part) continue;
+
+    if (CJK_CHAR.test(part[0])) {
+      if (part.length === 1) {
+        tokens.push(part);
+      } else {
+        for (let i = 0; i < part.length - 1; i++) {
+          tokens.push(part.slice(i, i + 2));
+        }
+      }
+      continue;
+    }
+
+    for (const match of part.matchAll(WORD)) {
+      const word = match[0];
+      tokens.push(word);
+      const pieces = word.split(IDENTIFIER_SEPARATOR).filter(Boolean);
+      if (pieces.length > 1) {
+        tokens.push(...pieces);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 計算查詢的檢索關鍵詞
+ * 去重並移除停用詞和單字符拉丁詞，用於詞法檢索
+ */
+export function extractQueryKeywords(query: string): string[] {
+  const keywords = new Set<string>();
+  for (const token of tokenizeForSearch(query)) {
+    if (STOP_WORDS.has(token)) continue;
+    if (token.length === 1 && !CJK_CHAR.test(token)) continue;
+    keywords.add(token);
+  }
+  return Array.from(keywords);
+}
@@ -0,0 +1,83 @@
+/**
+ * OpenClaw Transcript 解析
+ * Transcript 為 JSONL 格式，每行一個事件：
+ * {"type":"message","timestamp":"...","message":{"role":"...","content":...}}
+ */
+
+import type { ConversationMessage } from './chunk.js';
+
+/**
+ * 提取消息內容中的文本
+ * content 可能是 string 或 array of content parts
+ */
+function extractText(contentData: unknown): string {
+  if (typeof contentData === 'string') {
+    return contentData;
+  }
+  if (Array.isArray(contentData)) {
+    return contentData
+      .filter((part: any) => part?.type === 'text' && part.text)
+      .map((part: any) => part.text)
+      .join(' ');
+  }
+  return JSON.stringify(contentData);
+}
+
+/**
+ * 解析時間戳（毫秒數或 ISO 8601 字符串）
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+/**
+ * 解析 Transcript 內容為消息列表
+ * 跳過無效的 JSON 行和非消息事件；每條消息記錄其在會話中的序號、時間和所在行
+ */
+export function parseTranscript(content: string): ConversationMessage[] {
+  const messages: ConversationMessage[] = [];
+  let lineStart = 0;
+  let lineNumber = 0;
+  let index = 0;
+
+  while (lineStart < content.length) {
+    const newline = content.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? content.length : newline;
+    const line = content.slice(lineStart, lineEnd);
+    lineNumber++;
+
+    if (line.trim()) {
+      try {
+        const entry = JSON.parse(line);
+        if (entry.type === 'message' && entry.message) {
+          const role = entry.message.role;
+          const contentData = entry.message.content;
+          const messageIndex = index++;
+
+          if (role && contentData) {
+            messages.push({
+              role,
+              content: extractText(contentData),
+              timestamp: parseTimestamp(entry.timestamp ?? entry.message.timestamp),
+              index: messageIndex,
+              span: { offset: lineStart, endOffset: lineEnd, line: lineNumber },
+            });
+          }
+        }
+      } catch {
+        // 跳過無效的 JSON 行
+      }
+    }
+
+    lineStart = lineEnd + 1;
+  }
+
+  return messages;
+}